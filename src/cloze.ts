@@ -0,0 +1,136 @@
+/**
+ * Cloze deletion parsing
+ * Mirrors Anki's handling of {{c1::text}}, {{c1::text::hint}} and nested clozes
+ */
+
+import { parseTemplate } from './template.js';
+import type { TemplateNode } from './template.js';
+import type { AnkiModel } from './types.js';
+
+/**
+ * A single cloze deletion, e.g. {{c2::answer::hint}}
+ */
+export interface ClozeDeletion {
+  ord: number;  // Cloze number as written (c1 = 1)
+  children: ClozeNode[];
+  hint?: string;
+}
+
+/**
+ * Parsed cloze text: plain text or a (possibly nested) deletion
+ */
+export type ClozeNode = string | ClozeDeletion;
+
+const CLOZE_TOKEN = /\{\{c(\d+)::|\}\}/g;
+
+/**
+ * Parse text into plain text and cloze deletions
+ * Unmatched closing braces and unterminated clozes are kept as plain text
+ */
+export function parseCloze(text: string): ClozeNode[] {
+  const root: ClozeNode[] = [];
+  const open: { deletion: ClozeDeletion; marker: string }[] = [];
+
+  const append = (node: ClozeNode): void => {
+    const target = open.length > 0 ? open[open.length - 1].deletion.children : root;
+    const last = target[target.length - 1];
+    if (typeof node === 'string' && typeof last === 'string') {
+      target[target.length - 1] = last + node;
+    } else if (node !== '') {
+      target.push(node);
+    }
+  };
+
+  const appendText = (value: string): void => {
+    const current = open.length > 0 ? open[open.length - 1].deletion : undefined;
+    if (current?.hint !== undefined) {
+      current.hint += value;
+      return;
+    }
+
+    // The first "::" inside a deletion starts its hint
+    const separator = current ? value.indexOf('::') : -1;
+    if (current && separator >= 0) {
+      append(value.slice(0, separator));
+      current.hint = value.slice(separator + 2);
+      return;
+    }
+
+    append(value);
+  };
+
+  let pos = 0;
+  for (const match of text.matchAll(CLOZE_TOKEN)) {
+    appendText(text.slice(pos, match.index));
+    pos = match.index + match[0].length;
+
+    if (match[1] !== undefined) {
+      const ord = Number(match[1]);
+      if (ord > 0) {
+        open.push({ deletion: { ord, children: [] }, marker: match[0] });
+      } else {
+        appendText(match[0]);
+      }
+    } else {
+      const closed = open.pop();
+      if (closed) {
+        append(closed.deletion);
+      } else {
+        appendText(match[0]);
+      }
+    }
+  }
+  appendText(text.slice(pos));
+
+  // Unterminated clozes fall back to their literal text
+  while (open.length > 0) {
+    const unclosed = open.pop()!;
+    const hint = unclosed.deletion.hint === undefined ? '' : `::${unclosed.deletion.hint}`;
+    append(unclosed.marker);
+    for (const child of unclosed.deletion.children) append(child);
+    append(hint);
+  }
+
+  return root;
+}
+
+/**
+ * Get the distinct cloze numbers used in text, in ascending order
+ */
+export function getClozeNumbers(text: string): number[] {
+  const numbers = new Set<number>();
+
+  const visit = (nodes: ClozeNode[]): void => {
+    for (const node of nodes) {
+      if (typeof node === 'string') continue;
+      numbers.add(node.ord);
+      visit(node.children);
+    }
+  };
+  visit(parseCloze(text));
+
+  return Array.from(numbers).sort((a, b) => a - b);
+}
+
+/**
+ * Get the names of fields rendered with the cloze filter, e.g. {{cloze:Text}}
+ */
+export function getClozeFieldNames(model: AnkiModel): string[] {
+  const names = new Set<string>();
+
+  const visit = (nodes: TemplateNode[]): void => {
+    for (const node of nodes) {
+      if (node.type === 'replacement' && node.filters.includes('cloze')) {
+        names.add(node.key);
+      } else if (node.type === 'conditional') {
+        visit(node.children);
+      }
+    }
+  };
+
+  for (const tmpl of model.tmpls) {
+    visit(parseTemplate(tmpl.qfmt));
+  }
+
+  return Array.from(names);
+}
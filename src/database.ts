@@ -1,24 +1,50 @@
 /**
- * SQLite database creation and management for Anki collection.anki2
+ * SQLite database creation and management for Anki collection.anki2 / .anki21b
  * Uses sql.js for in-memory database to avoid disk I/O
  */
 
-import initSqlJs, { Database as SqlJsDatabase } from 'sql.js';
-import type { AnkiModel, AnkiDeck, AnkiNote } from './types.js';
+import initSqlJs, { Database as SqlJsDatabase, Statement } from 'sql.js';
+import type {
+  AnkiModel,
+  AnkiDeck,
+  AnkiNote,
+  CardSchedule,
+  Clock,
+  CollectionConfig,
+  DeckConfig,
+  PackageFormat,
+  ReviewLogEntry
+} from './types.js';
 import {
   IdGenerator,
+  generateCardId,
   generateGuid,
   timestampSeconds,
   timestampMillis,
   formatTags,
+  normalizeTags,
+  TAG_SEPARATOR,
   joinFields,
   calculateChecksum,
+  stripHtmlMedia,
   getDefaultCollectionConfig,
   getDefaultDeckConfig,
   getDefaultLatexPre,
   getDefaultLatexPost,
   generateRequirements
 } from './utils.js';
+import { getClozeFieldNames, getClozeNumbers } from './cloze.js';
+import { getNonEmptyFieldNames, parseTemplate, rendersWithFields } from './template.js';
+import type { TemplateNode } from './template.js';
+import { deckIdFromName, getAncestorDeckNames, normalizeDeckName, parseDeckName } from './deck-tree.js';
+import {
+  encodeDeckCommon,
+  encodeDeckConfig,
+  encodeDeckKind,
+  encodeFieldConfig,
+  encodeNotetypeConfig,
+  encodeTemplateConfig
+} from './protobuf.js';
 
 /**
  * SQL schema for Anki collection database
@@ -50,7 +76,7 @@ CREATE TABLE notes (
   usn INTEGER NOT NULL,
   tags TEXT NOT NULL,
   flds TEXT NOT NULL,
-  sfld TEXT NOT NULL,
+  sfld INTEGER NOT NULL,  -- INTEGER affinity so numeric sort fields sort as numbers
   csum INTEGER NOT NULL,
   flags INTEGER NOT NULL,
   data TEXT NOT NULL
@@ -100,7 +126,12 @@ CREATE TABLE revlog (
 
 CREATE INDEX ix_revlog_usn ON revlog (usn);
 CREATE INDEX ix_revlog_cid ON revlog (cid);
+`;
 
+/**
+ * Schema 11 tables: models, decks and options live as JSON in the col row
+ */
+const LEGACY_SCHEMA_SQL = `
 -- Graves (deleted items)
 CREATE TABLE graves (
   usn INTEGER NOT NULL,
@@ -111,6 +142,125 @@ CREATE TABLE graves (
 CREATE INDEX ix_graves_usn ON graves (usn);
 `;
 
+/**
+ * Schema 18 tables (Anki 2.1.50+): models, decks and options get their own tables
+ * with protobuf configs. Anki declares name columns "COLLATE unicase", a collation
+ * it registers itself when opening the file, so it is left out here.
+ */
+const LATEST_SCHEMA_SQL = `
+CREATE TABLE graves (
+  oid INTEGER NOT NULL,
+  type INTEGER NOT NULL,
+  usn INTEGER NOT NULL,
+  PRIMARY KEY (oid, type)
+) WITHOUT ROWID;
+
+CREATE TABLE deck_config (
+  id INTEGER PRIMARY KEY NOT NULL,
+  name TEXT NOT NULL,
+  mtime_secs INTEGER NOT NULL,
+  usn INTEGER NOT NULL,
+  config BLOB NOT NULL
+);
+
+CREATE TABLE config (
+  KEY TEXT NOT NULL PRIMARY KEY,
+  usn INTEGER NOT NULL,
+  mtime_secs INTEGER NOT NULL,
+  val BLOB NOT NULL
+) WITHOUT ROWID;
+
+CREATE TABLE fields (
+  ntid INTEGER NOT NULL,
+  ord INTEGER NOT NULL,
+  name TEXT NOT NULL,
+  config BLOB NOT NULL,
+  PRIMARY KEY (ntid, ord)
+) WITHOUT ROWID;
+
+CREATE UNIQUE INDEX idx_fields_name_ntid ON fields (name, ntid);
+
+CREATE TABLE templates (
+  ntid INTEGER NOT NULL,
+  ord INTEGER NOT NULL,
+  name TEXT NOT NULL,
+  mtime_secs INTEGER NOT NULL,
+  usn INTEGER NOT NULL,
+  config BLOB NOT NULL,
+  PRIMARY KEY (ntid, ord)
+) WITHOUT ROWID;
+
+CREATE UNIQUE INDEX idx_templates_name_ntid ON templates (name, ntid);
+CREATE INDEX idx_templates_usn ON templates (usn);
+
+CREATE TABLE notetypes (
+  id INTEGER NOT NULL PRIMARY KEY,
+  name TEXT NOT NULL,
+  mtime_secs INTEGER NOT NULL,
+  usn INTEGER NOT NULL,
+  config BLOB NOT NULL
+);
+
+CREATE UNIQUE INDEX idx_notetypes_name ON notetypes (name);
+CREATE INDEX idx_notetypes_usn ON notetypes (usn);
+
+CREATE TABLE decks (
+  id INTEGER PRIMARY KEY NOT NULL,
+  name TEXT NOT NULL,
+  mtime_secs INTEGER NOT NULL,
+  usn INTEGER NOT NULL,
+  common BLOB NOT NULL,
+  kind BLOB NOT NULL
+);
+
+CREATE UNIQUE INDEX idx_decks_name ON decks (name);
+
+CREATE TABLE tags (
+  tag TEXT NOT NULL PRIMARY KEY,
+  usn INTEGER NOT NULL,
+  collapsed BOOLEAN NOT NULL,
+  config BLOB NULL
+) WITHOUT ROWID;
+
+CREATE INDEX idx_notes_mid ON notes (mid);
+CREATE INDEX idx_cards_odid ON cards (odid) WHERE odid != 0;
+`;
+
+/**
+ * Card type column values (the queue uses the same numbers, except relearning)
+ */
+const CARD_TYPES = { new: 0, learning: 1, review: 2, relearning: 3 } as const;
+
+/**
+ * Revlog type column values
+ */
+const REVIEW_TYPES = { learn: 0, review: 1, relearn: 2, cram: 3, manual: 4 } as const;
+
+/**
+ * Queue values for suspended and user-buried cards
+ */
+const QUEUE_SUSPENDED = -1;
+const QUEUE_BURIED = -3;
+
+/**
+ * Time after midnight UTC at which a scheduling day starts (Anki's default 4 am rollover)
+ */
+const DAY_ROLLOVER_SECS = 4 * 3600;
+
+/**
+ * Scheduling columns of a card row
+ */
+interface CardState {
+  type: number;
+  queue: number;
+  due: number;
+  ivl: number;
+  factor: number;
+  reps: number;
+  lapses: number;
+  left: number;
+}
+
 /**
  * Anki collection database builder
  */
@@ -119,10 +269,25 @@ export class AnkiDatabase {
   private idGen: IdGenerator;
   private models: Map<number, AnkiModel> = new Map<number, AnkiModel>();
   private decks: Map<number, AnkiDeck> = new Map<number, AnkiDeck>();
+  private deckConfigs: Map<number, DeckConfig> = new Map<number, DeckConfig>();
+  private questionTemplates: Map<number, TemplateNode[][]> = new Map<number, TemplateNode[][]>();
+  private keyFieldOrds: Map<number, number[]> = new Map<number, number[]>();
+  private noteIds: Set<number> = new Set<number>();
+  private cardIds: Set<number> = new Set<number>();
+  private reviewIds: Set<number> = new Set<number>();
+  private implicitDecks: Set<number> = new Set<number>();
+  private tags: Map<string, string> = new Map<string, string>();  // lowercase -> registered spelling
   private initialized = false;
+  private crt = 0;
+  private insertNoteStmt: Statement | null = null;
+  private insertCardStmt: Statement | null = null;
+  private insertReviewStmt: Statement | null = null;
 
-  constructor() {
-    this.idGen = new IdGenerator();
+  constructor(
+    private format: PackageFormat = 'legacy',
+    private clock: Clock = Date.now
+  ) {
+    this.idGen = new IdGenerator(clock());
   }
 
   /**
@@ -135,34 +300,48 @@ export class AnkiDatabase {
     this.db = new SQL.Database();
 
     // Create schema
-    this.db.exec(SCHEMA_SQL);
+    const latest = this.format === 'latest';
+    this.db.exec(SCHEMA_SQL + (latest ? LATEST_SCHEMA_SQL : LEGACY_SCHEMA_SQL));
 
     // Insert initial collection row
-    const now = timestampMillis();
-    const nowSec = timestampSeconds();
+    const now = timestampMillis(this.clock);
+    const nowSec = timestampSeconds(this.clock);
+
+    // Like Anki, the collection is created at the day rollover, so review
+    // days counted from crt start at the rollover too
+    this.crt = Math.floor((nowSec - DAY_ROLLOVER_SECS) / 86_400) * 86_400 + DAY_ROLLOVER_SECS;
 
     const conf = getDefaultCollectionConfig();
-    const dconf = getDefaultDeckConfig();
 
+    // Schema 18 keeps the JSON columns empty; their data lives in separate tables
     this.db.run(`
       INSERT INTO col (id, crt, mod, scm, ver, dty, usn, ls, conf, models, decks, dconf, tags)
       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `, [
       1,
-      nowSec,
+      this.crt,
       now,
       now,
-      11,  // Anki version
+      latest ? 18 : 11,  // schema version
       0,   // dirty flag
       -1,  // update sequence number
       0,   // last sync
-      JSON.stringify(conf),
-      '{}',  // models (will be updated)
-      '{}',  // decks (will be updated)
-      JSON.stringify(dconf),
-      '{}'   // tags
+      latest ? '' : JSON.stringify(conf),
+      latest ? '' : '{}',  // models (will be updated)
+      latest ? '' : '{}',  // decks (will be updated)
+      latest ? '' : '{}',  // dconf (will be updated)
+      latest ? '' : '{}'   // tags (written on export)
     ]);
 
+    if (latest) {
+      this.writeConfigTable(conf, nowSec);
+    }
+
+    for (const deckConfig of Object.values(getDefaultDeckConfig())) {
+      this.deckConfigs.set(deckConfig.id, deckConfig);
+    }
+    this.updateCollectionDeckConfigs();
+
     this.initialized = true;
   }
 
@@ -195,7 +374,7 @@ export class AnkiDatabase {
       flds: fullFields,
       tmpls: fullTemplates,
       type: model.type ?? 0,
-      mod: model.mod ?? timestampSeconds(),
+      mod: model.mod ?? timestampSeconds(this.clock),
       usn: model.usn ?? -1,
       sortf: model.sortf ?? 0,
       did: model.did ?? null,
@@ -206,38 +385,90 @@ export class AnkiDatabase {
       tags: model.tags ?? [],
       vers: model.vers ?? []
     };
+    delete fullModel.assets;  // Packaged as media by the writer
+    delete fullModel.keyFields;
+
+    const keyFieldOrds = (model.keyFields ?? model.flds.map(field => field.name)).map(name => {
+      const field = model.flds.find(fld => fld.name === name);
+      if (!field) throw new Error(`Key field "${name}" of model ${model.id} is not one of its fields`);
+      return field.ord;
+    });
+    if (keyFieldOrds.length === 0) throw new Error(`Model ${model.id} has no key fields`);
 
     this.models.set(model.id, fullModel);
+    this.keyFieldOrds.set(model.id, keyFieldOrds);
+    this.questionTemplates.set(model.id, model.tmpls.map(tmpl => parseTemplate(tmpl.qfmt)));
     this.updateCollectionModels();
   }
 
+  /**
+   * Add a deck options group, or replace the built-in Default group (id 1)
+   */
+  addDeckConfig(conf: DeckConfig): void {
+    if (!this.db) throw new Error('Database not initialized');
+
+    if (!Number.isSafeInteger(conf.id) || conf.id <= 0) {
+      throw new Error(`Options group id ${conf.id} is not a positive integer`);
+    }
+
+    this.deckConfigs.set(conf.id, this.withDeckConfigDefaults(conf));
+    this.updateCollectionDeckConfigs();
+  }
+
   /**
    * Add a deck to the collection
+   * Missing parent decks of "Parent::Child" names are created with stable IDs
    */
   addDeck(deck: AnkiDeck): void {
     if (!this.db) throw new Error('Database not initialized');
 
-    const now = timestampSeconds();
-    const fullDeck: AnkiDeck = {
-      ...deck,
-      desc: deck.desc ?? '',
-      collapsed: deck.collapsed ?? false,
-      conf: deck.conf ?? 1,
-      dyn: deck.dyn ?? 0,
-      extendNew: deck.extendNew ?? 0,
-      extendRev: deck.extendRev ?? 50,
-      lrnToday: deck.lrnToday ?? [0, 0],
-      mod: deck.mod ?? now,
-      newToday: deck.newToday ?? [0, 0],
-      revToday: deck.revToday ?? [0, 0],
-      timeToday: deck.timeToday ?? [0, 0],
-      usn: deck.usn ?? -1
-    };
+    const name = normalizeDeckName(deck.name);
+
+    const conf = deck.conf ?? 1;
+    if (!deck.dyn && !this.deckConfigs.has(conf)) {
+      throw new Error(`Deck "${name}" uses options group ${conf}, which is not defined`);
+    }
+
+    const sameId = this.decks.get(deck.id);
+    if (sameId && sameId.name.toLowerCase() !== name.toLowerCase()) {
+      throw new Error(`Deck id ${deck.id} is used by both "${sameId.name}" and "${name}"`);
+    }
 
-    this.decks.set(deck.id, fullDeck);
+    const sameName = this.findDeckByName(name);
+    if (sameName && sameName.id !== deck.id) {
+      if (!this.implicitDecks.has(sameName.id)) {
+        throw new Error(`Deck "${name}" is defined twice, with ids ${sameName.id} and ${deck.id}`);
+      }
+      // An explicitly defined deck replaces the auto-created parent
+      this.decks.delete(sameName.id);
+      this.implicitDecks.delete(sameName.id);
+    }
+
+    for (const parentName of getAncestorDeckNames(name)) {
+      if (this.findDeckByName(parentName)) continue;
+
+      const parentId = deckIdFromName(parentName);
+      const clash = parentId === deck.id ? name : this.decks.get(parentId)?.name;
+      if (clash !== undefined) {
+        throw new Error(`Parent deck "${parentName}" id ${parentId} conflicts with deck "${clash}"`);
+      }
+
+      this.decks.set(parentId, this.withDeckDefaults({ id: parentId, name: parentName }));
+      this.implicitDecks.add(parentId);
+    }
+
+    this.decks.set(deck.id, this.withDeckDefaults({ ...deck, name }));
+    this.implicitDecks.delete(deck.id);
     this.updateCollectionDecks();
   }
 
+  /**
+   * Check whether a deck is in the collection, including auto-created parents
+   */
+  hasDeck(id: number): boolean {
+    return this.decks.has(id);
+  }
+
   /**
    * Add a note to the database
    */
@@ -246,60 +477,227 @@ export class AnkiDatabase {
 
     const model = this.models.get(modelId);
     if (!model) throw new Error(`Model ${modelId} not found`);
+    if (!this.decks.has(deckId)) throw new Error(`Deck ${deckId} not found`);
 
     if (note.fields.length !== model.flds.length) {
       throw new Error(`Note has ${note.fields.length} fields, but model expects ${model.flds.length}`);
     }
 
-    const noteId = this.idGen.next();
-    const guid = note.guid ?? generateGuid(...note.fields);
-    const tags = formatTags(note.tags ?? []);
+    // Generate cards for each non-empty template, or for each cloze number
+    const ords = model.type === 1
+      ? this.getClozeCardOrds(model, note)
+      : this.getTemplateCardOrds(model, note);
+
+    // Generated ids leave room for every template, so a card added later keeps its id
+    const span = model.type === 1 ? Math.max(...ords) + 1 : Math.max(...model.tmpls.map(tmpl => tmpl.ord)) + 1;
+    const noteId = this.nextNoteId(note.id, ords, span);
+    const keyFieldOrds = this.keyFieldOrds.get(modelId) ?? [];
+    const guid = note.guid ?? generateGuid(...keyFieldOrds.map(ord => note.fields[ord]));
+    const tags = formatTags(normalizeTags(note.tags ?? []).map(tag => this.registerTag(tag)));
     const flds = joinFields(note.fields);
-    const sfld = note.fields[model.sortf ?? 0];
+    const sfld = stripHtmlMedia(note.fields[model.sortf ?? 0]);
     const csum = calculateChecksum(note.fields[0]);
-    const mod = timestampSeconds();
+    const mod = timestampSeconds(this.clock);
 
     // Insert note
-    this.db.run(`
+    this.insertNoteStmt ??= this.db.prepare(`
       INSERT INTO notes (id, guid, mid, mod, usn, tags, flds, sfld, csum, flags, data)
       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
-    `, [noteId, guid, modelId, mod, -1, tags, flds, sfld, csum, 0, '']);
+    `);
+    this.insertNoteStmt.run([noteId, guid, modelId, mod, -1, tags, flds, sfld, csum, 0, '']);
+
+    // Note-level reviews happened once, so they go to the first card without its own schedule
+    let noteReviews = note.schedule?.reviews ?? [];
+    for (const ord of ords) {
+      const cardDeckId = this.cardDeckId(model, note, ord) ?? deckId;
+      if (!this.decks.has(cardDeckId)) throw new Error(`Deck ${cardDeckId} for card ${ord} not found`);
+
+      const cardSchedule = note.cards?.[ord];
+      const cardId = this.addCard(noteId, cardDeckId, ord, this.cardState(noteId, cardSchedule ?? note.schedule));
+      if (cardSchedule) {
+        this.addReviews(cardId, cardSchedule.reviews ?? []);
+      } else {
+        this.addReviews(cardId, noteReviews);
+        noteReviews = [];
+      }
+    }
+
+    return noteId;
+  }
+
+  /**
+   * Get the deck a card is placed in by the note or its template, if any
+   * Cloze models have one template for all their cards
+   */
+  private cardDeckId(model: AnkiModel, note: AnkiNote, ord: number): number | undefined {
+    const tmpl = model.type === 1 ? model.tmpls[0] : model.tmpls.find(t => t.ord === ord);
+    return note.cardDecks?.[ord] ?? tmpl?.did ?? undefined;
+  }
 
-    // Generate cards for each template
-    for (let ord = 0; ord < model.tmpls.length; ord++) {
-      this.addCard(noteId, deckId, ord);
+  /**
+   * Take a note's own id, or the next generated one that is not taken
+   * A note's cards get generateCardId(noteId, ord). Generated ids are spaced
+   * by `span`; a given id whose card ids are taken is rejected, as picking
+   * other card ids would lose them on the next export.
+   */
+  private nextNoteId(id: number | undefined, ords: number[], span: number): number {
+    const cardIdTaken = (noteId: number) => ords.find(ord => this.cardIds.has(generateCardId(noteId, ord)));
+
+    if (id !== undefined) {
+      if (!Number.isSafeInteger(id) || id <= 0) throw new Error(`Note id ${id} is not a positive integer`);
+      if (this.noteIds.has(id)) throw new Error(`Duplicate note id ${id}`);
+      const ord = cardIdTaken(id);
+      if (ord !== undefined) {
+        throw new Error(
+          `Card ${ord} of note ${id} would get id ${generateCardId(id, ord)}, which another note's card has; ` +
+          'note ids must be at least their number of templates apart'
+        );
+      }
+      this.noteIds.add(id);
+      return id;
     }
 
+    let noteId = this.idGen.next();
+    while (this.noteIds.has(noteId) || cardIdTaken(noteId) !== undefined) noteId = this.idGen.next();
+    this.idGen.skipPast(noteId + span - 1);
+    this.noteIds.add(noteId);
     return noteId;
   }
 
+  /**
+   * Get card ordinals for a standard note: templates whose front is not empty
+   */
+  private getTemplateCardOrds(model: AnkiModel, note: AnkiNote): number[] {
+    const nonEmpty = getNonEmptyFieldNames(model.flds, note.fields);
+    const questions = this.questionTemplates.get(model.id) ?? [];
+
+    const ords: number[] = [];
+    questions.forEach((nodes, ord) => {
+      if (rendersWithFields(nodes, nonEmpty)) ords.push(ord);
+    });
+
+    if (ords.length === 0) {
+      throw new Error('Note would not generate any cards: every card front is empty');
+    }
+
+    return ords;
+  }
+
+  /**
+   * Get card ordinals for a cloze note: one card per distinct cloze number
+   */
+  private getClozeCardOrds(model: AnkiModel, note: AnkiNote): number[] {
+    const clozeFields = getClozeFieldNames(model);
+    if (clozeFields.length === 0) {
+      throw new Error(`Cloze model ${model.id} has no {{cloze:Field}} in its question template`);
+    }
+
+    const numbers = new Set<number>();
+    for (const name of clozeFields) {
+      const field = model.flds.find(fld => fld.name === name);
+      if (!field) continue;
+      for (const num of getClozeNumbers(note.fields[field.ord] ?? '')) {
+        numbers.add(num);
+      }
+    }
+
+    if (numbers.size === 0) {
+      throw new Error(`Cloze note has no cloze deletions in fields: ${clozeFields.join(', ')}`);
+    }
+
+    return Array.from(numbers).sort((a, b) => a - b).map(num => num - 1);
+  }
+
+  /**
+   * Add many notes in one transaction, reusing prepared statements
+   * Each note must name its model and deck via `modelId` and `deckId`
+   */
+  addNotes(notes: Iterable<AnkiNote>): number[] {
+    return this.transaction(() => {
+      const noteIds: number[] = [];
+      for (const note of notes) {
+        if (note.modelId === undefined) throw new Error('Note has no modelId');
+        if (note.deckId === undefined) throw new Error('Note has no deckId');
+        noteIds.push(this.addNote(note, note.modelId, note.deckId));
+      }
+      return noteIds;
+    });
+  }
+
+  /**
+   * Rewrite the fields of every stored note, e.g. to rename media files
+   * Notes whose fields change get a fresh sort field and checksum
+   */
+  rewriteNoteFields(rewrite: (fields: string[]) => string[]): void {
+    const db = this.db;
+    if (!db) throw new Error('Database not initialized');
+
+    this.transaction(() => {
+      const select = db.prepare('SELECT id, mid, flds FROM notes');
+      const update = db.prepare('UPDATE notes SET flds = ?, sfld = ?, csum = ?, mod = ? WHERE id = ?');
+
+      try {
+        while (select.step()) {
+          const [id, mid, flds] = select.get() as [number, number, string];
+          const fields = rewrite(flds.split('\x1f'));
+          const joined = joinFields(fields);
+          if (joined === flds) continue;
+
+          const sortf = this.models.get(mid)?.sortf ?? 0;
+          update.run([joined, stripHtmlMedia(fields[sortf]), calculateChecksum(fields[0]), timestampSeconds(this.clock), id]);
+        }
+      } finally {
+        select.free();
+        update.free();
+      }
+    });
+  }
+
+  /**
+   * Add a tag and its parents to the collection's tag registry
+   * Returns the tag with each level spelled the way it was first registered,
+   * as Anki matches tags case-insensitively
+   */
+  private registerTag(tag: string): string {
+    let name = '';
+    for (const part of tag.split(TAG_SEPARATOR)) {
+      const candidate = name === '' ? part : name + TAG_SEPARATOR + part;
+      const key = candidate.toLowerCase();
+      name = this.tags.get(key) ?? candidate;
+      this.tags.set(key, name);
+    }
+    return name;
+  }
+
   /**
    * Add a card to the database
    */
-  private addCard(noteId: number, deckId: number, ord: number): number {
+  private addCard(noteId: number, deckId: number, ord: number, state: CardState): number {
     if (!this.db) throw new Error('Database not initialized');
 
-    const cardId = this.idGen.next();
-    const mod = timestampSeconds();
+    const cardId = generateCardId(noteId, ord);
+    this.cardIds.add(cardId);
+    const mod = timestampSeconds(this.clock);
 
-    this.db.run(`
+    this.insertCardStmt ??= this.db.prepare(`
       INSERT INTO cards (id, nid, did, ord, mod, usn, type, queue, due, ivl, factor, reps, lapses, left, odue, odid, flags, data)
       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
-    `, [
+    `);
+    this.insertCardStmt.run([
       cardId,
       noteId,
       deckId,
       ord,
       mod,
       -1,   // usn
-      0,    // type (new)
-      0,    // queue (new)
-      cardId,  // due (use card ID for new cards)
-      0,    // ivl
-      0,    // factor
-      0,    // reps
-      0,    // lapses
-      0,    // left
+      state.type,
+      state.queue,
+      state.due,
+      state.ivl,
+      state.factor,
+      state.reps,
+      state.lapses,
+      state.left,
       0,    // odue
       0,    // odid
       0,    // flags
@@ -309,12 +707,136 @@ export class AnkiDatabase {
     return cardId;
   }
 
+  /**
+   * Convert study progress to a card's scheduling columns
+   * New cards are shown in the order their notes were created. Review cards
+   * are due on a day counted from the collection's creation time (crt), the
+   * way Anki counts days for collections without a UTC offset; learning cards
+   * are due at a timestamp in seconds.
+   */
+  private cardState(noteId: number, schedule: CardSchedule | undefined): CardState {
+    const state = schedule?.state ?? 'new';
+    const type = CARD_TYPES[state];
+    let queue: number = state === 'relearning' ? CARD_TYPES.learning : type;
+    let due = noteId;
+
+    if (state !== 'new') {
+      if (schedule?.due === undefined) throw new Error(`Card in state "${state}" has no due date`);
+      const dueSecs = Math.floor(toMillis(schedule.due) / 1000);
+      due = queue === CARD_TYPES.review ? Math.floor((dueSecs - this.crt) / 86_400) : dueSecs;
+    }
+
+    if (schedule?.suspended) {
+      queue = QUEUE_SUSPENDED;
+    } else if (schedule?.buried) {
+      queue = QUEUE_BURIED;
+    }
+
+    const learning = state === 'learning' || state === 'relearning';
+    return {
+      type,
+      queue,
+      due,
+      ivl: schedule?.interval ?? (type >= CARD_TYPES.review ? 1 : 0),
+      factor: state === 'new' ? 0 : schedule?.ease ?? 2500,
+      reps: schedule?.reps ?? 0,
+      lapses: schedule?.lapses ?? 0,
+      left: learning ? 1001 : 0  // one learning step left, to be done today
+    };
+  }
+
+  /**
+   * Write a card's review history to the revlog table
+   * Reviews are keyed by their time, so reviews at the same millisecond are
+   * moved a millisecond apart
+   */
+  private addReviews(cardId: number, reviews: ReviewLogEntry[]): void {
+    if (!this.db) throw new Error('Database not initialized');
+    if (reviews.length === 0) return;
+
+    this.insertReviewStmt ??= this.db.prepare(`
+      INSERT INTO revlog (id, cid, usn, ease, ivl, lastIvl, factor, time, type)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+
+    for (const review of reviews) {
+      let id = Math.round(toMillis(review.time));
+      while (this.reviewIds.has(id)) id++;
+      this.reviewIds.add(id);
+
+      this.insertReviewStmt.run([
+        id,
+        cardId,
+        -1,  // usn
+        review.button,
+        review.interval,
+        review.lastInterval ?? 0,
+        review.ease ?? 0,
+        review.durationMs ?? 0,
+        REVIEW_TYPES[review.type ?? 'review']
+      ]);
+    }
+  }
+
+  /**
+   * Fill in deck defaults
+   */
+  private withDeckDefaults(deck: AnkiDeck): AnkiDeck {
+    return {
+      ...deck,
+      desc: deck.desc ?? '',
+      collapsed: deck.collapsed ?? false,
+      conf: deck.conf ?? 1,
+      dyn: deck.dyn ?? 0,
+      extendNew: deck.extendNew ?? 0,
+      extendRev: deck.extendRev ?? 50,
+      lrnToday: deck.lrnToday ?? [0, 0],
+      mod: deck.mod ?? timestampSeconds(this.clock),
+      newToday: deck.newToday ?? [0, 0],
+      revToday: deck.revToday ?? [0, 0],
+      timeToday: deck.timeToday ?? [0, 0],
+      usn: deck.usn ?? -1
+    };
+  }
+
+  /**
+   * Fill in options group defaults, section by section
+   */
+  private withDeckConfigDefaults(conf: DeckConfig): DeckConfig {
+    const defaults = getDefaultDeckConfig()['1'];
+    return {
+      ...defaults,
+      ...conf,
+      new: { ...defaults.new, ...conf.new },
+      rev: { ...defaults.rev, ...conf.rev },
+      lapse: { ...defaults.lapse, ...conf.lapse },
+      mod: conf.mod ?? timestampSeconds(this.clock),
+      usn: conf.usn ?? -1
+    };
+  }
+
+  /**
+   * Find a deck by name (Anki deck names are case-insensitive)
+   */
+  private findDeckByName(name: string): AnkiDeck | undefined {
+    const key = name.toLowerCase();
+    for (const deck of this.decks.values()) {
+      if (deck.name.toLowerCase() === key) return deck;
+    }
+    return undefined;
+  }
+
   /**
    * Update models JSON in collection
    */
   private updateCollectionModels(): void {
     if (!this.db) throw new Error('Database not initialized');
 
+    if (this.format === 'latest') {
+      this.writeNotetypeTables();
+      return;
+    }
+
     const modelsObj: Record<string, AnkiModel> = {};
     for (const [id, model] of this.models.entries()) {
       modelsObj[id.toString()] = model;
@@ -332,6 +854,11 @@ export class AnkiDatabase {
   private updateCollectionDecks(): void {
     if (!this.db) throw new Error('Database not initialized');
 
+    if (this.format === 'latest') {
+      this.writeDecksTable();
+      return;
+    }
+
     const decksObj: Record<string, AnkiDeck> = {};
     for (const [id, deck] of this.decks.entries()) {
       decksObj[id.toString()] = deck;
@@ -343,11 +870,158 @@ export class AnkiDatabase {
     );
   }
 
+  /**
+   * Update options groups JSON in collection
+   */
+  private updateCollectionDeckConfigs(): void {
+    if (!this.db) throw new Error('Database not initialized');
+
+    if (this.format === 'latest') {
+      this.writeDeckConfigTable();
+      return;
+    }
+
+    const dconfObj: Record<string, DeckConfig> = {};
+    for (const [id, conf] of this.deckConfigs.entries()) {
+      dconfObj[id.toString()] = conf;
+    }
+
+    this.db.run(
+      'UPDATE col SET dconf = ? WHERE id = 1',
+      [JSON.stringify(dconfObj)]
+    );
+  }
+
+  /**
+   * Write the tag registry; done once on export as every note can add tags
+   */
+  private updateCollectionTags(): void {
+    if (!this.db) throw new Error('Database not initialized');
+
+    if (this.format === 'latest') {
+      this.db.run('DELETE FROM tags');
+      for (const tag of this.tags.values()) {
+        this.db.run('INSERT INTO tags (tag, usn, collapsed, config) VALUES (?, ?, ?, ?)', [tag, -1, 0, null]);
+      }
+      return;
+    }
+
+    const tagsObj: Record<string, number> = {};
+    for (const tag of this.tags.values()) {
+      tagsObj[tag] = -1;
+    }
+
+    this.db.run(
+      'UPDATE col SET tags = ? WHERE id = 1',
+      [JSON.stringify(tagsObj)]
+    );
+  }
+
+  /**
+   * Rewrite the schema 18 notetypes, fields and templates tables
+   */
+  private writeNotetypeTables(): void {
+    if (!this.db) throw new Error('Database not initialized');
+
+    this.db.run('DELETE FROM notetypes');
+    this.db.run('DELETE FROM fields');
+    this.db.run('DELETE FROM templates');
+
+    for (const model of this.models.values()) {
+      const mtime = model.mod ?? 0;
+      this.db.run(
+        'INSERT INTO notetypes (id, name, mtime_secs, usn, config) VALUES (?, ?, ?, ?, ?)',
+        [model.id, model.name, mtime, -1, encodeNotetypeConfig(model)]
+      );
+      for (const field of model.flds) {
+        this.db.run(
+          'INSERT INTO fields (ntid, ord, name, config) VALUES (?, ?, ?, ?)',
+          [model.id, field.ord, field.name, encodeFieldConfig(field)]
+        );
+      }
+      for (const tmpl of model.tmpls) {
+        this.db.run(
+          'INSERT INTO templates (ntid, ord, name, mtime_secs, usn, config) VALUES (?, ?, ?, ?, ?, ?)',
+          [model.id, tmpl.ord, tmpl.name, mtime, -1, encodeTemplateConfig(tmpl)]
+        );
+      }
+    }
+  }
+
+  /**
+   * Rewrite the schema 18 decks table (names use \x1f instead of "::")
+   */
+  private writeDecksTable(): void {
+    if (!this.db) throw new Error('Database not initialized');
+
+    this.db.run('DELETE FROM decks');
+    for (const deck of this.decks.values()) {
+      this.db.run(
+        'INSERT INTO decks (id, name, mtime_secs, usn, common, kind) VALUES (?, ?, ?, ?, ?, ?)',
+        [
+          deck.id,
+          parseDeckName(deck.name).join('\x1f'),
+          deck.mod ?? 0,
+          -1,
+          encodeDeckCommon(deck),
+          encodeDeckKind(deck)
+        ]
+      );
+    }
+  }
+
+  /**
+   * Write collection settings to the schema 18 config table (JSON values)
+   */
+  private writeConfigTable(conf: CollectionConfig, mtime: number): void {
+    if (!this.db) throw new Error('Database not initialized');
+
+    for (const [key, value] of Object.entries(conf)) {
+      this.db.run(
+        'INSERT INTO config (KEY, usn, mtime_secs, val) VALUES (?, ?, ?, ?)',
+        [key, -1, mtime, Buffer.from(JSON.stringify(value))]
+      );
+    }
+  }
+
+  /**
+   * Rewrite the schema 18 deck_config table
+   */
+  private writeDeckConfigTable(): void {
+    if (!this.db) throw new Error('Database not initialized');
+
+    this.db.run('DELETE FROM deck_config');
+    for (const conf of this.deckConfigs.values()) {
+      this.db.run(
+        'INSERT INTO deck_config (id, name, mtime_secs, usn, config) VALUES (?, ?, ?, ?, ?)',
+        [conf.id, conf.name, conf.mod ?? 0, -1, encodeDeckConfig(conf)]
+      );
+    }
+  }
+
+  /**
+   * Run inserts inside a single transaction, rolling back on error
+   */
+  transaction<T>(fn: () => T): T {
+    if (!this.db) throw new Error('Database not initialized');
+
+    this.db.run('BEGIN');
+    try {
+      const result = fn();
+      this.db.run('COMMIT');
+      return result;
+    } catch (error) {
+      this.db.run('ROLLBACK');
+      throw error;
+    }
+  }
+
   /**
    * Export database as Uint8Array
    */
   export(): Uint8Array {
     if (!this.db) throw new Error('Database not initialized');
+    this.updateCollectionTags();
     return this.db.export();
   }
 
@@ -355,9 +1029,50 @@ export class AnkiDatabase {
    * Close the database
    */
   close(): void {
+    this.insertNoteStmt?.free();
+    this.insertCardStmt?.free();
+    this.insertReviewStmt?.free();
+    this.insertNoteStmt = null;
+    this.insertCardStmt = null;
+    this.insertReviewStmt = null;
+
     if (this.db) {
       this.db.close();
       this.db = null;
     }
   }
 }
+
+/**
+ * Convert a Date or epoch milliseconds to milliseconds
+ */
+function toMillis(time: Date | number): number {
+  return time instanceof Date ? time.getTime() : time;
+}
+
+/**
+ * Build the collection.anki2 stub shipped in latest-format packages
+ * Older Anki versions import it as a single note asking the user to upgrade
+ */
+export async function createLegacyStub(clock?: Clock): Promise<Uint8Array> {
+  const db = new AnkiDatabase('legacy', clock);
+  await db.init();
+
+  try {
+    db.addModel({
+      id: 1,
+      name: 'Basic',
+      flds: [
+        { name: 'Front', ord: 0 },
+        { name: 'Back', ord: 1 }
+      ],
+      tmpls: [{ name: 'Card 1', ord: 0, qfmt: '{{Front}}', afmt: '{{FrontSide}}<hr id=answer>{{Back}}' }],
+      css: '.card { font-family: arial; font-size: 20px; text-align: center; }'
+    });
+    db.addDeck({ id: 1, name: 'Default' });
+    db.addNote({ fields: ['This file requires a newer version of Anki.', ''] }, 1, 1);
+    return db.export();
+  } finally {
+    db.close();
+  }
+}
@@ -0,0 +1,78 @@
+/**
+ * Deck hierarchy helpers
+ * Anki encodes subdecks in the deck name, e.g. "Japanese::N5::Verbs"
+ */
+
+import crypto from 'node:crypto';
+import type { AnkiDeck } from './types.js';
+import { hasControlChars } from './utils.js';
+
+/**
+ * Separator between deck path components
+ */
+export const DECK_SEPARATOR = '::';
+
+/**
+ * Optional settings for one level of a deck tree
+ */
+export interface DeckLevelOptions {
+  desc?: string;
+  conf?: number;
+}
+
+/**
+ * Split a deck name into its path components
+ * Components are trimmed like Anki does; empty components are rejected
+ */
+export function parseDeckName(name: string): string[] {
+  if (hasControlChars(name)) {
+    throw new Error(`Invalid deck name "${name}": control characters are not allowed`);
+  }
+
+  const parts = name.split(DECK_SEPARATOR).map(part => part.trim());
+  if (parts.some(part => part.length === 0)) {
+    throw new Error(`Invalid deck name "${name}": deck path components must not be empty`);
+  }
+
+  return parts;
+}
+
+/**
+ * Normalize a deck name by trimming its path components
+ */
+export function normalizeDeckName(name: string): string {
+  return parseDeckName(name).join(DECK_SEPARATOR);
+}
+
+/**
+ * Get the full names of all ancestors of a deck, root first
+ */
+export function getAncestorDeckNames(name: string): string[] {
+  const parts = parseDeckName(name);
+  return parts.slice(0, -1).map((_part, idx) => parts.slice(0, idx + 1).join(DECK_SEPARATOR));
+}
+
+/**
+ * Derive a stable deck ID from a full deck name (between 2^30 and 2^31)
+ */
+export function deckIdFromName(name: string): number {
+  const hash = crypto.createHash('sha1').update(normalizeDeckName(name), 'utf8').digest();
+  return (hash.readUInt32BE(0) % (1 << 30)) + (1 << 30);
+}
+
+/**
+ * Build every deck of a path, root first, with stable IDs
+ * `levels[i]` holds the description and options group of the i-th level
+ */
+export function createDeckTree(name: string, levels: (DeckLevelOptions | undefined)[] = []): AnkiDeck[] {
+  const parts = parseDeckName(name);
+
+  return parts.map((_part, idx) => {
+    const fullName = parts.slice(0, idx + 1).join(DECK_SEPARATOR);
+    return {
+      id: deckIdFromName(fullName),
+      name: fullName,
+      ...levels[idx]
+    };
+  });
+}
@@ -0,0 +1,34 @@
+/**
+ * Error classes
+ */
+
+import type { ValidationIssue } from './validation.js';
+
+/**
+ * Issues listed in a validation error message; the rest are only counted
+ */
+const MAX_LISTED_ISSUES = 20;
+
+/**
+ * Thrown when package creation is cancelled through an AbortSignal
+ * The signal's reason is kept as `cause`
+ */
+export class PackageAbortedError extends Error {
+  constructor(reason?: unknown) {
+    super('Package creation was aborted', { cause: reason });
+    this.name = 'AbortError';
+  }
+}
+
+/**
+ * Thrown before anything is written when the package input is invalid
+ * `issues` lists every problem found, with the path of the offending value
+ */
+export class PackageValidationError extends Error {
+  constructor(readonly issues: ValidationIssue[]) {
+    const lines = issues.slice(0, MAX_LISTED_ISSUES).map(issue => `  ${issue.path}: ${issue.message}`);
+    if (issues.length > MAX_LISTED_ISSUES) lines.push(`  ...and ${issues.length - MAX_LISTED_ISSUES} more`);
+    super(`Invalid package input:\n${lines.join('\n')}`);
+    this.name = 'PackageValidationError';
+  }
+}
@@ -1,141 +1,691 @@
 /**
  * Main Anki .apkg package writer
- * Streaming implementation that avoids disk I/O
+ * Streaming implementation; only media being deduplicated touches the disk
  */
 
-import { AnkiDatabase } from './database.js';
-import { ApkgZipWriter, buildMediaManifest } from './zip-writer.js';
-import { extractMediaFilenames } from './utils.js';
-import type { AnkiModel, AnkiDeck, AnkiNote, MediaResolver } from './types.js';
+import crypto from 'node:crypto';
+import { createReadStream, createWriteStream } from 'node:fs';
+import { rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import type { Readable } from 'node:stream';
+import { pipeline } from 'node:stream/promises';
+import { AnkiDatabase, createLegacyStub } from './database.js';
+import { PackageAbortedError, PackageValidationError } from './errors.js';
+import { MediaRegistry, withRetries } from './media.js';
+import type { MediaAttempt, MediaFailure, MediaOptions, MediaReport } from './media.js';
+import type { MediaEntryInfo } from './protobuf.js';
+import { replaceMediaFilenames } from './utils.js';
+import { NoteValidator, validatePackage } from './validation.js';
+import type { PackageDefinition } from './validation.js';
+import { ApkgZipWriter } from './zip-writer.js';
+import type { MediaEntry } from './zip-writer.js';
+import type {
+  AnkiModel,
+  AnkiDeck,
+  AnkiNote,
+  Clock,
+  DeckConfig,
+  Logger,
+  MediaResolver,
+  PackageFormat,
+  ProgressEvent
+} from './types.js';
+
+/**
+ * Notes accepted by the writer: an array, or any sync or async iterable
+ */
+export type NoteSource = Iterable<AnkiNote> | AsyncIterable<AnkiNote>;
 
 /**
  * Options for creating Anki package
  */
 export interface CreatePackageOptions {
-  model: AnkiModel;
-  deck: AnkiDeck;
-  notes: AnkiNote[];
+  model?: AnkiModel;  // Shorthand for a single-model package
+  deck?: AnkiDeck;  // Shorthand for a single-deck package
+  models?: AnkiModel[];
+  decks?: AnkiDeck[];
+  deckConfigs?: DeckConfig[];  // Options groups decks refer to with `conf`
+  notes?: NoteSource;  // May be omitted when notes are pushed with addNote()
+  tags?: string[];  // Added to every note, e.g. a source or version tag
   mediaResolver: MediaResolver;
   output: NodeJS.WritableStream;
+  format?: PackageFormat;  // Default 'legacy'
+  media?: MediaOptions;
+  logger?: Logger;  // Silent by default
+  onProgress?: (event: ProgressEvent) => void;
+  signal?: AbortSignal;  // Cancels the package; the output stream is left open
+  clock?: Clock;  // Time source for ids and timestamps (default Date.now)
+  deterministic?: boolean;  // Byte-identical output for identical input
 }
 
+/**
+ * Logger that discards everything
+ */
+const silentLogger: Logger = {
+  debug: () => undefined,
+  info: () => undefined,
+  warn: () => undefined,
+  error: () => undefined
+};
+
+/**
+ * Time used by deterministic packages that are not given a clock
+ */
+const DETERMINISTIC_TIME = Date.UTC(2020, 0, 1);
+
+/**
+ * A media file copied to a temp file, with its size and content hash
+ */
+interface SpooledMediaFile {
+  path: string;
+  bytes: number;
+  hash: string;
+}
+
+/**
+ * A resolved media file, ready to be opened for writing
+ * Size and hash are only known for files that were spooled or given inline
+ */
+type ResolvedMediaFile = { path?: string; open(): MediaEntry['stream'] } & (
+  | { bytes: number; hash: string }
+  | { bytes?: undefined; hash?: undefined }
+);
+
+/**
+ * Number of notes inserted per database transaction
+ */
+const NOTE_BATCH_SIZE = 1000;
+
 /**
  * Anki package writer with streaming API
+ *
+ * Either call create() to write `options.notes`, or feed notes with
+ * addNote()/addNotes() and call finish() once all notes are added.
  */
 export class AnkiPackageWriter {
   private db: AnkiDatabase;
   private zipWriter: ApkgZipWriter;
-  private model: AnkiModel;
-  private deck: AnkiDeck;
-  private notes: AnkiNote[];
+  private models: AnkiModel[];
+  private decks: AnkiDeck[];
+  private deckConfigs: DeckConfig[];
+  private definition: PackageDefinition;  // Models and decks as given, for validation paths
+  private noteValidator: NoteValidator;
+  private notes?: NoteSource;
+  private tags: string[];
   private mediaResolver: MediaResolver;
-  private mediaFiles: Set<string> = new Set<string>();
+  private format: PackageFormat;
+  private mediaOptions: MediaOptions;
+  private logger: Logger;
+  private onProgress?: (event: ProgressEvent) => void;
+  private signal?: AbortSignal;
+  private clock: Clock;
+  private deterministic: boolean;
+  private media = new MediaRegistry();
+  private modelMedia = new Map<string, number[]>();  // Files models use, with model ids
+  private noteMedia = new Map<string, number[]>();  // Files notes use, with note indexes
+  private inlineMedia = new Map<string, Uint8Array>();
+  private pendingNotes: AnkiNote[] = [];
+  private noteCount = 0;
+  private ready: Promise<void> | null = null;
+  private closed = false;
 
   constructor(options: CreatePackageOptions) {
-    this.model = options.model;
-    this.deck = options.deck;
+    this.models = [...(options.model ? [options.model] : []), ...(options.models ?? [])];
+    this.decks = [...(options.deck ? [options.deck] : []), ...(options.decks ?? [])];
+    this.deckConfigs = options.deckConfigs ?? [];
+    this.definition = {
+      model: options.model,
+      deck: options.deck,
+      models: options.models,
+      decks: options.decks,
+      deckConfigs: options.deckConfigs,
+      tags: options.tags
+    };
+    this.noteValidator = new NoteValidator(this.models, this.decks);
     this.notes = options.notes;
+    this.tags = options.tags ?? [];
     this.mediaResolver = options.mediaResolver;
+    this.format = options.format ?? 'legacy';
+    this.mediaOptions = options.media ?? {};
+    this.logger = options.logger ?? silentLogger;
+    this.onProgress = options.onProgress;
+    this.signal = options.signal;
+    this.deterministic = options.deterministic ?? false;
+    this.clock = options.clock ?? (this.deterministic ? () => DETERMINISTIC_TIME : Date.now);
 
-    this.db = new AnkiDatabase();
-    this.zipWriter = new ApkgZipWriter(options.output);
+    this.db = new AnkiDatabase(this.format, this.clock);
+    this.zipWriter = new ApkgZipWriter(options.output, this.format, this.clock);
+
+    if (this.signal?.aborted) {
+      this.abort();
+    } else {
+      this.signal?.addEventListener('abort', this.abort, { once: true });
+    }
+  }
+
+  /**
+   * Create the package from `options.notes` (main entry point)
+   * Models, decks and notes given as an array are validated before anything
+   * is written; streamed notes are validated as they arrive
+   */
+  async create(): Promise<MediaReport> {
+    const issues = validatePackage({ ...this.definition, notes: this.notes });
+    if (issues.length > 0) throw this.fail(new PackageValidationError(issues));
+
+    if (this.notes) {
+      await this.addNotes(this.notes);
+    }
+    return this.finish();
   }
 
   /**
-   * Create the package (main entry point)
+   * Add a single note; notes are inserted in batches
    */
-  async create(): Promise<void> {
+  async addNote(note: AnkiNote): Promise<void> {
+    this.throwIfAborted();
+    if (this.closed) throw new Error('Package writer is closed');
+
     try {
-      // Step 1: Initialize database
-      await this.db.init();
+      await this.ensureReady();
+      this.throwIfAborted();
 
-      // Step 2: Add model and deck
-      this.db.addModel(this.model);
-      this.db.addDeck(this.deck);
+      const index = this.noteCount + this.pendingNotes.length;
+      const issues = this.noteValidator.validate(note, index);
+      if (issues.length > 0) throw new PackageValidationError(issues);
 
-      // Step 3: Add notes and collect media filenames
-      this.collectMediaFilenames();
+      this.pendingNotes.push(this.renameMedia(note, index));
 
-      // Step 4: Add notes to database
-      for (const note of this.notes) {
-        this.db.addNote(note, this.model.id, this.deck.id);
+      if (this.pendingNotes.length >= NOTE_BATCH_SIZE) {
+        this.flushNotes();
       }
+    } catch (error) {
+      throw this.fail(error);
+    }
+  }
+
+  /**
+   * Add notes from an array or a sync/async iterable
+   */
+  async addNotes(notes: NoteSource): Promise<void> {
+    for await (const note of notes) {
+      await this.addNote(note);
+    }
+  }
 
-      // Step 5: Export database
+  /**
+   * Write the package to the output once all notes are added
+   * Resolves with the media files that were skipped or replaced
+   */
+  async finish(): Promise<MediaReport> {
+    this.throwIfAborted();
+    if (this.closed) throw new Error('Package writer is closed');
+
+    try {
+      await this.ensureReady();
+      this.throwIfAborted();
+      this.flushNotes();
+
+      // Write media first: duplicates found while hashing are renamed in the notes
+      const { entries: mediaEntries, failures } = await this.writeMediaFiles();
+
+      // Export database
       const dbData = this.db.export();
+      this.emit({ type: 'database-exported', bytes: dbData.length });
+      await this.writeDatabase(dbData);
 
-      // Steps 6-8: Write media files, database, and manifest in parallel
-      await Promise.all([
-        this.writeMediaFiles(),
-        this.zipWriter.addDatabase(dbData),
-        this.writeMediaManifest()
-      ]);
+      // The manifest needs the size and hash of every media file
+      await this.zipWriter.addMediaManifest(mediaEntries);
 
-      // Step 9: Finalize ZIP
+      // Finalize ZIP
       await this.zipWriter.finalize();
+      const bytes = this.zipWriter.bytesWritten;
+      this.logger.info(`Wrote package: ${this.noteCount} notes, ${mediaEntries.length} media files, ${bytes} bytes`);
+      this.emit({ type: 'archive-finalized', bytes, notes: this.noteCount, mediaFiles: mediaEntries.length });
 
-      // Step 10: Clean up
-      this.db.close();
+      // Clean up
+      this.close();
+      return { failures };
     } catch (error) {
-      this.db.close();
-      throw error;
+      throw this.fail(error);
     }
   }
 
   /**
-   * Collect all media filenames from notes
+   * Report progress to the `onProgress` listener
    */
-  private collectMediaFilenames(): void {
-    for (const note of this.notes) {
-      for (const field of note.fields) {
-        const filenames = extractMediaFilenames(field);
-        for (const filename of filenames) {
-          this.mediaFiles.add(filename);
+  private emit(event: ProgressEvent): void {
+    this.onProgress?.(event);
+  }
+
+  /**
+   * Release the database; the writer cannot be used afterwards
+   */
+  private close(): void {
+    this.closed = true;
+    this.signal?.removeEventListener('abort', this.abort);
+    this.db.close();
+  }
+
+  /**
+   * Close after an error, reporting any error caused by cancelling as an abort
+   */
+  private fail(error: unknown): unknown {
+    this.close();
+    if (this.signal?.aborted && !(error instanceof PackageAbortedError)) {
+      return new PackageAbortedError(this.signal.reason);
+    }
+    return error;
+  }
+
+  /**
+   * Tear everything down when the signal aborts: the archive and the database
+   * In-flight resolver streams are destroyed through their attempt's signal
+   */
+  private abort = (): void => {
+    this.zipWriter.abort(new PackageAbortedError(this.signal?.reason));
+    this.close();
+  };
+
+  private throwIfAborted(): void {
+    if (this.signal?.aborted) throw new PackageAbortedError(this.signal.reason);
+  }
+
+  /**
+   * Validate models and decks, initialize the database and add them, once
+   */
+  private ensureReady(): Promise<void> {
+    this.ready ??= Promise.resolve()
+      .then(() => {
+        const issues = validatePackage(this.definition);
+        if (issues.length > 0) throw new PackageValidationError(issues);
+      })
+      .then(() => this.db.init())
+      .then(() => this.addModelsAndDecks());
+    return this.ready;
+  }
+
+  /**
+   * Add all models, options groups and decks, rejecting duplicate ids
+   */
+  private addModelsAndDecks(): void {
+    if (this.models.length === 0) throw new Error('At least one model is required');
+    if (this.decks.length === 0) throw new Error('At least one deck is required');
+
+    const modelIds = new Set<number>();
+    for (const model of this.models) {
+      if (modelIds.has(model.id)) throw new Error(`Duplicate model id ${model.id}`);
+      modelIds.add(model.id);
+      this.db.addModel(this.renameModelMedia(model));
+    }
+
+    const deckConfigIds = new Set<number>();
+    for (const conf of this.deckConfigs) {
+      if (deckConfigIds.has(conf.id)) throw new Error(`Duplicate options group id ${conf.id}`);
+      deckConfigIds.add(conf.id);
+      this.db.addDeckConfig(conf);
+    }
+
+    const deckIds = new Set<number>();
+    for (const deck of this.decks) {
+      if (deckIds.has(deck.id)) throw new Error(`Duplicate deck id ${deck.id}`);
+      deckIds.add(deck.id);
+      this.db.addDeck(deck);
+    }
+
+    for (const model of this.models) {
+      for (const tmpl of model.tmpls) {
+        if (tmpl.did != null && !this.db.hasDeck(tmpl.did)) {
+          throw new Error(`Template "${tmpl.name}" of model ${model.id} uses deck ${tmpl.did}, which is not in the package`);
         }
       }
     }
   }
 
   /**
-   * Write media files to ZIP in batches to avoid OOM with large decks
+   * Insert pending notes in a single transaction
+   */
+  private flushNotes(): void {
+    if (this.pendingNotes.length === 0) return;
+
+    const defaultModelId = this.models.length === 1 ? this.models[0].id : undefined;
+    const defaultDeckId = this.decks.length === 1 ? this.decks[0].id : undefined;
+    const notes = this.pendingNotes;
+    this.pendingNotes = [];
+
+    const resolved = notes.map(note => {
+      const index = this.noteCount++;
+      const modelId = note.modelId ?? defaultModelId;
+      const deckId = note.deckId ?? defaultDeckId;
+
+      if (modelId === undefined) {
+        throw new Error(`Note ${index} has no modelId and the package has ${this.models.length} models`);
+      }
+      if (deckId === undefined) {
+        throw new Error(`Note ${index} has no deckId and the package has ${this.decks.length} decks`);
+      }
+
+      return { ...note, modelId, deckId, tags: [...(note.tags ?? []), ...this.tags] };
+    });
+
+    this.db.addNotes(resolved);
+    this.emit({ type: 'notes-inserted', count: resolved.length, total: this.noteCount });
+  }
+
+  /**
+   * Register a model's declared assets and the files its CSS and templates use
+   */
+  private renameModelMedia(model: AnkiModel): AnkiModel {
+    const add = (filename: string) => {
+      const name = this.media.add(filename);
+      addReference(this.modelMedia, name, model.id);
+      return name;
+    };
+
+    for (const asset of model.assets ?? []) {
+      if (typeof asset === 'string') {
+        add(asset);
+        continue;
+      }
+
+      const name = add(asset.filename);
+      const existing = this.inlineMedia.get(name);
+      if (existing && Buffer.compare(existing, asset.data) !== 0) {
+        throw new Error(`Model asset ${asset.filename} is declared twice with different content`);
+      }
+      this.inlineMedia.set(name, asset.data);
+    }
+    const html = (text: string | undefined) => text === undefined ? undefined : replaceMediaFilenames(text, add);
+
+    return {
+      ...model,
+      css: replaceMediaFilenames(model.css, add, 'css'),
+      tmpls: model.tmpls.map(tmpl => ({
+        ...tmpl,
+        qfmt: replaceMediaFilenames(tmpl.qfmt, add),
+        afmt: replaceMediaFilenames(tmpl.afmt, add),
+        bqfmt: html(tmpl.bqfmt),
+        bafmt: html(tmpl.bafmt)
+      }))
+    };
+  }
+
+  /**
+   * Register a note's media and point its fields at the safe filenames
    */
-  private async writeMediaFiles(): Promise<void> {
-    const filenames = Array.from(this.mediaFiles);
+  private renameMedia(note: AnkiNote, index: number): AnkiNote {
+    const fields = note.fields.map(field =>
+      replaceMediaFilenames(field, filename => {
+        const name = this.media.add(filename);
+        addReference(this.noteMedia, name, index);
+        return name;
+      })
+    );
+    return { ...note, fields };
+  }
 
-    if (filenames.length === 0) {
-      return;
+  /**
+   * Write the collection, plus the legacy stub for latest-format packages
+   */
+  private async writeDatabase(data: Uint8Array): Promise<void> {
+    await this.zipWriter.addDatabase(data);
+    if (this.format === 'latest') {
+      await this.zipWriter.addLegacyStub(await createLegacyStub(this.clock));
     }
+  }
+
+  /**
+   * Write media files to ZIP with a rolling pool of `concurrency` resolvers
+   * When deduplicating, each file is spooled to a temp file and hashed
+   * first; files whose content was already written get no entry, and notes
+   * that reference them are pointed at the first copy. Entries are numbered
+   * without gaps, as the latest format finds them by position. Files that
+   * cannot be resolved are handled by the `onMissing` policy; a stream that
+   * fails while it is written fails the package. Deterministic packages
+   * place files in the order they were referenced, so a slow file holds up
+   * the pool.
+   */
+  private async writeMediaFiles(): Promise<{ entries: MediaEntryInfo[]; failures: MediaFailure[] }> {
+    const filenames = this.media.filenames;
+    const entries: MediaEntryInfo[] = [];
+    const failures: MediaFailure[] = [];
+    const written = new Map<string, string>();  // content hash -> filename
+    const renames = new Map<string, string | null>();  // null drops the reference
+    const policy = this.mediaOptions.onMissing ?? 'fail';
+    const total = filenames.length;
+    let completed = 0;
 
-    const BATCH_SIZE = 10;
-    for (let i = 0; i < filenames.length; i += BATCH_SIZE) {
-      const batch = filenames.slice(i, i + BATCH_SIZE);
-      await Promise.all(
-        batch.map(async (filename, j) => {
-          const index = i + j;
-          const stream = await this.mediaResolver(filename);
-          await this.zipWriter.addMediaFile(index, stream);
-          console.log(`Added media file to ZIP: ${filename} (index: ${index})`);
-        })
-      );
+    const write = async (filename: string, source: MediaEntry['stream']): Promise<MediaEntryInfo> => {
+      const index = entries.length;
+      entries.push({ index, filename, size: 0, sha1: new Uint8Array(0) });
+      entries[index] = { index, filename, ...await this.zipWriter.addMediaFile(index, source) };
+      this.logger.debug(`Added media file to ZIP: ${filename} (index: ${index})`);
+      this.emit({ type: 'media-written', filename, index, bytes: entries[index].size });
+      return entries[index];
+    };
+
+    // Handle a file that could not be resolved with the `onMissing` policy
+    const replace = async (filename: string, error: Error): Promise<void> => {
+      const original = this.media.original(filename);
+      if (policy === 'fail') {
+        throw new Error(`Could not resolve media file ${original}: ${error.message}`, { cause: error });
+      }
+
+      const action = policy === 'skip' ? 'skipped' : 'placeholder';
+      failures.push({
+        filename,
+        error,
+        action,
+        notes: this.noteMedia.get(filename) ?? [],
+        models: this.modelMedia.get(filename) ?? []
+      });
+      this.logger.warn(`Media file ${original} ${action}: ${error.message}`);
+      this.emit({ type: 'media-failed', filename, action, error, completed: ++completed, total });
+      if (policy === 'skip') {
+        renames.set(filename, null);
+        return;
+      }
+      await write(filename, [this.mediaOptions.placeholder ?? new Uint8Array(0)]);
+    };
+
+    // Model files go first, so notes that duplicate them are pointed at them
+    const modelFiles = filenames.filter(filename => this.modelMedia.has(filename));
+    const noteFiles = filenames.filter(filename => !this.modelMedia.has(filename));
+    const concurrency = Math.max(1, this.mediaOptions.concurrency ?? 10);
+    let turn = Promise.resolve();
+    const task = async (filename: string) => {
+      this.throwIfAborted();
+      const previous = turn;
+      let pass: () => void = () => undefined;
+      if (this.deterministic) turn = new Promise(resolve => { pass = resolve; });
+
+      let spooled: string | undefined;
+      try {
+        let file: ResolvedMediaFile;
+        try {
+          file = await this.resolveMediaFile(filename);
+          spooled = file.path;
+        } catch (error) {
+          // Cancelling is not a missing file, whatever the `onMissing` policy
+          if (this.signal?.aborted) throw error;
+          await previous;
+          await replace(filename, error instanceof Error ? error : new Error(String(error)));
+          return;
+        }
+
+        await previous;
+        this.throwIfAborted();
+        if (file.hash !== undefined) {
+          const duplicate = written.get(file.hash);
+          if (duplicate === undefined) {
+            written.set(file.hash, filename);
+          } else if (!this.modelMedia.has(filename)) {
+            renames.set(filename, duplicate);
+            this.emit({ type: 'media-resolved', filename, bytes: file.bytes, completed: ++completed, total });
+            return;
+          }
+        }
+
+        this.emit({ type: 'media-resolved', filename, bytes: file.bytes, completed: ++completed, total });
+        // Once its entry exists a file cannot be retried or replaced without
+        // leaving a gap, so a stream that fails now fails the package
+        const writing = write(filename, file.open()).catch((error: unknown) => {
+          const message = error instanceof Error ? error.message : String(error);
+          throw new Error(`Could not read media file ${this.media.original(filename)}: ${message}`, { cause: error });
+        });
+        pass();
+        await writing;
+      } finally {
+        pass();
+        if (spooled !== undefined) await rm(spooled, { force: true });
+      }
+    };
+
+    await runPool(modelFiles, concurrency, task);
+    await runPool(noteFiles, concurrency, task);
+
+    if (renames.size > 0) {
+      this.db.rewriteNoteFields(fields => fields.map(field =>
+        replaceMediaFilenames(field, filename => renames.has(filename) ? renames.get(filename) ?? null : filename)
+      ));
     }
+
+    return { entries, failures };
   }
 
   /**
-   * Write media manifest to ZIP
+   * Resolve a media file, with the configured timeout and retries
+   * When deduplicating, each attempt is spooled to a temp file while it is
+   * hashed, so read errors are retried too and a failed attempt never gets
+   * an entry. Inline model assets are used as they are.
    */
-  private async writeMediaManifest(): Promise<void> {
-    const filenames = Array.from(this.mediaFiles);
-    const manifest = buildMediaManifest(filenames);
-    await this.zipWriter.addMediaManifest(manifest);
+  private async resolveMediaFile(filename: string): Promise<ResolvedMediaFile> {
+    const inline = this.inlineMedia.get(filename);
+    if (inline !== undefined) {
+      const hash = crypto.createHash('sha1').update(inline).digest('hex');
+      return { bytes: inline.length, hash, open: () => [inline] };
+    }
+
+    const original = this.media.original(filename);
+    if (this.mediaOptions.deduplicate === false) {
+      return withRetries(original, this.mediaOptions, async attempt => {
+        const stream = await attempt.timed(this.resolveMedia(original, attempt.signal));
+        return { open: () => readChunks(stream, attempt) };
+      }, this.signal);
+    }
+
+    const { path, bytes, hash } = await withRetries(original, this.mediaOptions, async attempt =>
+      spoolMedia(await attempt.timed(this.resolveMedia(original, attempt.signal)), attempt), this.signal
+    );
+    return { bytes, hash, path, open: () => createReadStream(path) };
+  }
+
+  /**
+   * Call the media resolver with an attempt's signal
+   * The stream is destroyed if the attempt times out or the package is
+   * cancelled before it has been read, including when it arrives too late
+   */
+  private async resolveMedia(filename: string, signal: AbortSignal): Promise<NodeJS.ReadableStream> {
+    const stream = await this.mediaResolver(filename, { signal });
+    const destroy = () => (stream as Partial<Readable>).destroy?.();
+    if (signal.aborted) {
+      destroy();
+      signal.throwIfAborted();
+    }
+
+    signal.addEventListener('abort', destroy, { once: true });
+    const forget = () => signal.removeEventListener('abort', destroy);
+    stream.once('end', forget);
+    stream.once('close', forget);
+    return stream;
+  }
+}
+
+/**
+ * Run a task for each item, keeping up to `concurrency` tasks running
+ * Stops starting new tasks after one fails
+ */
+async function runPool<T>(items: T[], concurrency: number, task: (item: T) => Promise<void>): Promise<void> {
+  let next = 0;
+  let failed = false;
+
+  const worker = async () => {
+    while (!failed && next < items.length) {
+      try {
+        await task(items[next++]);
+      } catch (error) {
+        failed = true;
+        throw error;
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, worker));
+}
+
+/**
+ * Read a resolved media stream for an attempt
+ * Waiting for each chunk counts towards the attempt's timeout, waiting for
+ * the output does not. The stream is destroyed if writing stops early.
+ */
+async function* readChunks(stream: NodeJS.ReadableStream, attempt: MediaAttempt): AsyncIterable<Uint8Array> {
+  const chunks = (stream as AsyncIterable<Uint8Array>)[Symbol.asyncIterator]();
+  try {
+    for (;;) {
+      const chunk = await attempt.timed(chunks.next());
+      if (chunk.done) return;
+      yield chunk.value;
+    }
+  } finally {
+    (stream as Partial<Readable>).destroy?.();
+  }
+}
+
+/**
+ * Copy an attempt's stream to a temp file, hashing it on the way
+ * The file is removed if the attempt fails.
+ */
+async function spoolMedia(stream: NodeJS.ReadableStream, attempt: MediaAttempt): Promise<SpooledMediaFile> {
+  const path = join(tmpdir(), `apkg-media-${crypto.randomUUID()}`);
+  const hash = crypto.createHash('sha1');
+  let bytes = 0;
+
+  async function* measure(source: AsyncIterable<Uint8Array | string>): AsyncIterable<Uint8Array> {
+    for await (const chunk of source) {
+      const data = typeof chunk === 'string' ? Buffer.from(chunk) : chunk;
+      hash.update(data);
+      bytes += data.length;
+      yield data;
+    }
+  }
+
+  try {
+    await pipeline(readChunks(stream, attempt), measure, createWriteStream(path));
+  } catch (error) {
+    await rm(path, { force: true });
+    throw error;
+  }
+  return { path, bytes, hash: hash.digest('hex') };
+}
+
+/**
+ * Record that a note or model references a media file
+ */
+function addReference(references: Map<string, number[]>, filename: string, id: number): void {
+  const ids = references.get(filename);
+  if (ids === undefined) {
+    references.set(filename, [id]);
+  } else if (ids[ids.length - 1] !== id) {
+    ids.push(id);
   }
 }
 
 /**
  * Convenience function to create an Anki package
  */
-export async function createAnkiPackage(options: CreatePackageOptions): Promise<void> {
+export async function createAnkiPackage(options: CreatePackageOptions): Promise<MediaReport> {
   const writer = new AnkiPackageWriter(options);
-  await writer.create();
+  return writer.create();
 }
 
 // Re-export types and utilities
@@ -145,14 +695,62 @@ export type {
   AnkiNote,
   AnkiField,
   AnkiTemplate,
+  CardSchedule,
+  Clock,
+  Logger,
   MediaResolver,
+  ModelAsset,
+  PackageFormat,
+  ProgressEvent,
+  ReviewLogEntry,
   CollectionConfig,
   DeckConfig
 } from './types.js';
 
+export { PackageAbortedError, PackageValidationError } from './errors.js';
+export { validatePackage } from './validation.js';
+export type { PackageDefinition, ValidationIssue } from './validation.js';
+
+export { sanitizeMediaFilename } from './media.js';
+export type {
+  MediaFailure,
+  MediaOptions,
+  MediaReport,
+  MissingMediaPolicy
+} from './media.js';
+
+export { readAnkiPackage } from './reader.js';
+export type { AnkiPackageContents, PackageMedia, PackageSource } from './reader.js';
+
+export { renderCard } from './renderer.js';
+export type { RenderCardOptions, RenderedCard } from './renderer.js';
+
+export { getClozeNumbers, parseCloze } from './cloze.js';
+export type { ClozeDeletion, ClozeNode } from './cloze.js';
+
+export {
+  createDeckTree,
+  deckIdFromName,
+  parseDeckName
+} from './deck-tree.js';
+export type { DeckLevelOptions } from './deck-tree.js';
+
+export {
+  basicModel,
+  basicAndReversedModel,
+  basicOptionalReversedModel,
+  basicTypingModel,
+  clozeModel,
+  imageOcclusionModel,
+  modelIdFromName,
+  STOCK_KINDS
+} from './stock-models.js';
+export type { StockModelOptions } from './stock-models.js';
+
 export {
   generateDeckId,
   generateModelId,
   generateGuid,
+  generateCardId,
   extractMediaFilenames
 } from './utils.js';
@@ -0,0 +1,225 @@
+/**
+ * Media filename handling
+ * Gives note media safe, unique names that work on every platform Anki runs on
+ */
+
+import { setTimeout as sleep } from 'node:timers/promises';
+import { stripControlChars } from './utils.js';
+
+/**
+ * Characters Anki strips from media filenames, besides control characters
+ */
+const DISALLOWED_CHARS = /[[\]<>:"/?*\\|^]/g;
+
+/**
+ * Reserved Windows device names, with or without an extension
+ */
+const WINDOWS_DEVICE_NAME = /^(CON|PRN|AUX|NUL|COM[1-9]|LPT[1-9])(\.|$)/i;
+
+/**
+ * Windows drops a trailing dot or space from filenames
+ */
+const WINDOWS_TRAILING_CHAR = /[. ]$/;
+
+/**
+ * Longest filename Anki accepts, in UTF-8 bytes
+ */
+const MAX_FILENAME_BYTES = 120;
+
+/**
+ * What to do with a media file that cannot be resolved
+ * fail: abort the package; skip: leave the file out and remove references to it
+ * from notes; placeholder: store `MediaOptions.placeholder` under its name
+ */
+export type MissingMediaPolicy = 'fail' | 'skip' | 'placeholder';
+
+/**
+ * Media writer options
+ */
+export interface MediaOptions {
+  deduplicate?: boolean;  // Collapse files with identical content (default true)
+  concurrency?: number;  // Media files resolved and written at once (default 10)
+  onMissing?: MissingMediaPolicy;  // Default 'fail'
+  placeholder?: Uint8Array;  // Content stored by the 'placeholder' policy (default empty)
+  timeoutMs?: number;  // Per attempt; no timeout by default
+  retries?: number;  // Extra attempts after a failure (default 0)
+  retryDelayMs?: number;  // Delay before the first retry, doubled for each next one (default 100)
+}
+
+/**
+ * A media file that could not be resolved and was skipped or replaced
+ */
+export interface MediaFailure {
+  filename: string;  // Name as stored in the package
+  error: Error;  // Error of the last attempt
+  action: 'skipped' | 'placeholder';
+  notes: number[];  // Indexes of the notes referencing the file, in the order they were added
+  models: number[];  // Ids of the models whose assets, CSS or templates use the file
+}
+
+/**
+ * Outcome of writing a package's media
+ */
+export interface MediaReport {
+  failures: MediaFailure[];
+}
+
+/**
+ * One try at fetching a media file
+ */
+export interface MediaAttempt {
+  signal: AbortSignal;  // Aborted when the attempt times out or the package is cancelled
+  timed<T>(promise: Promise<T>): Promise<T>;  // Waits up to `timeoutMs`, then aborts the attempt
+}
+
+/**
+ * Run a media fetch with a per-attempt timeout, retrying with exponential backoff
+ * Each attempt gets its own signal, so work left over from a timed-out
+ * attempt is cancelled before the next one starts. Stops waiting and retrying
+ * as soon as the package signal aborts.
+ */
+export async function withRetries<T>(
+  filename: string,
+  options: MediaOptions,
+  attempt: (attempt: MediaAttempt) => Promise<T>,
+  signal?: AbortSignal
+): Promise<T> {
+  const retries = options.retries ?? 0;
+  const delay = options.retryDelayMs ?? 100;
+
+  for (let n = 0; ; n++) {
+    signal?.throwIfAborted();
+    const controller = new AbortController();
+    const attemptSignal = signal ? AbortSignal.any([signal, controller.signal]) : controller.signal;
+    try {
+      return await attempt({
+        signal: attemptSignal,
+        timed: promise => withTimeout(filename, options.timeoutMs, promise, controller, attemptSignal)
+      });
+    } catch (error) {
+      if (n >= retries || signal?.aborted) throw error;
+      await sleep(delay * 2 ** n, undefined, { signal });
+    }
+  }
+}
+
+/**
+ * Reject if a promise does not settle in time, aborting the attempt, or when
+ * the attempt is aborted
+ */
+function withTimeout<T>(
+  filename: string,
+  timeoutMs: number | undefined,
+  promise: Promise<T>,
+  controller: AbortController,
+  signal: AbortSignal
+): Promise<T> {
+  let timer: NodeJS.Timeout | undefined;
+  let onAbort: (() => void) | undefined;
+  const stop = new Promise<never>((_resolve, reject) => {
+    onAbort = () => reject(signal.reason as Error);
+    if (signal.aborted) {
+      onAbort();
+      return;
+    }
+    if (timeoutMs !== undefined) {
+      timer = setTimeout(() => controller.abort(new Error(`Media file ${filename} timed out after ${timeoutMs} ms`)), timeoutMs);
+    }
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+
+  return Promise.race([promise, stop]).finally(() => {
+    clearTimeout(timer);
+    if (onAbort) signal.removeEventListener('abort', onAbort);
+  });
+}
+
+/**
+ * Make a media filename safe, following Anki's normalize_filename
+ * Applies NFC, strips path separators and other reserved characters, and
+ * renames Windows device names. Throws if nothing usable is left.
+ */
+export function sanitizeMediaFilename(filename: string): string {
+  let name = stripControlChars(filename.normalize('NFC').replace(DISALLOWED_CHARS, ''));
+  name = name.replace(WINDOWS_DEVICE_NAME, '$1_$2');
+  if (WINDOWS_TRAILING_CHAR.test(name)) name += '_';
+  name = truncateFilename(name, MAX_FILENAME_BYTES);
+
+  if (name === '' || name === '_' || /^\.+_?$/.test(name)) {
+    throw new Error(`Media filename "${filename}" has no usable characters`);
+  }
+
+  return name;
+}
+
+/**
+ * Shorten a filename to a byte length, keeping its extension
+ */
+function truncateFilename(filename: string, maxBytes: number): string {
+  if (Buffer.byteLength(filename) <= maxBytes) return filename;
+
+  const dot = filename.lastIndexOf('.');
+  const ext = dot > 0 ? filename.slice(dot) : '';
+  let stem = dot > 0 ? filename.slice(0, dot) : filename;
+
+  const chars = Array.from(stem);
+  while (chars.length > 0 && Buffer.byteLength(chars.join('') + ext) > maxBytes) {
+    chars.pop();
+  }
+  stem = chars.join('');
+
+  const name = stem + ext;
+  return WINDOWS_TRAILING_CHAR.test(name) ? name + '_' : name;
+}
+
+/**
+ * Registry of the media files referenced by notes
+ * Maps each filename as written in the notes to a safe, unique package name
+ */
+export class MediaRegistry {
+  private safeNames = new Map<string, string>();  // original -> safe
+  private originals = new Map<string, string>();  // safe -> original
+
+  /**
+   * Register a referenced filename and get the name it is stored under
+   * Names that only collide after sanitizing get a numeric suffix
+   */
+  add(filename: string): string {
+    const existing = this.safeNames.get(filename);
+    if (existing !== undefined) return existing;
+
+    const base = sanitizeMediaFilename(filename);
+    let name = base;
+    for (let n = 2; this.originals.has(name); n++) {
+      name = withSuffix(base, `_${n}`);
+    }
+
+    this.safeNames.set(filename, name);
+    this.originals.set(name, filename);
+    return name;
+  }
+
+  /**
+   * Get the filename a safe name was registered from, for the media resolver
+   */
+  original(name: string): string {
+    return this.originals.get(name) ?? name;
+  }
+
+  /**
+   * Safe names in the order they were first referenced
+   */
+  get filenames(): string[] {
+    return Array.from(this.originals.keys());
+  }
+}
+
+/**
+ * Insert a suffix before a filename's extension
+ */
+function withSuffix(filename: string, suffix: string): string {
+  const dot = filename.lastIndexOf('.');
+  return dot > 0
+    ? filename.slice(0, dot) + suffix + filename.slice(dot)
+    : filename + suffix;
+}
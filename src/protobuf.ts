@@ -0,0 +1,316 @@
+/**
+ * Minimal protobuf encoding for the Anki 2.1.50+ package format
+ * Field numbers follow Anki's proto/anki/*.proto definitions
+ */
+
+import type { AnkiDeck, AnkiField, AnkiModel, AnkiTemplate, DeckConfig } from './types.js';
+
+/**
+ * Protobuf wire types
+ */
+const VARINT = 0;
+const FIXED64 = 1;
+const FIXED32 = 5;
+const LENGTH_DELIMITED = 2;
+
+/**
+ * Append-only protobuf message writer
+ * Default values (0, false, '') are skipped like proto3 encoders do
+ */
+export class ProtoWriter {
+  private chunks: Uint8Array[] = [];
+
+  /**
+   * Write an unsigned or non-negative varint field (uint32, int64, enum)
+   */
+  varint(field: number, value: number): this {
+    if (value === 0) return this;
+    this.tag(field, VARINT);
+    this.rawVarint(value);
+    return this;
+  }
+
+  /**
+   * Write an optional varint field, which is written even when 0 but not when unset
+   */
+  optionalVarint(field: number, value: number | undefined): this {
+    if (value === undefined) return this;
+    this.tag(field, VARINT);
+    this.rawVarint(value);
+    return this;
+  }
+
+  /**
+   * Write a bool field
+   */
+  bool(field: number, value: boolean): this {
+    return this.varint(field, value ? 1 : 0);
+  }
+
+  /**
+   * Write a float field
+   */
+  float(field: number, value: number): this {
+    if (value === 0) return this;
+    this.tag(field, FIXED32);
+    const buf = Buffer.alloc(4);
+    buf.writeFloatLE(value);
+    this.chunks.push(buf);
+    return this;
+  }
+
+  /**
+   * Write a string field
+   */
+  string(field: number, value: string): this {
+    if (value === '') return this;
+    return this.bytes(field, Buffer.from(value, 'utf8'));
+  }
+
+  /**
+   * Write a bytes field
+   */
+  bytes(field: number, value: Uint8Array): this {
+    this.tag(field, LENGTH_DELIMITED);
+    this.rawVarint(value.length);
+    this.chunks.push(value);
+    return this;
+  }
+
+  /**
+   * Write an embedded message field (always written, even when empty)
+   */
+  message(field: number, message: ProtoWriter): this {
+    return this.bytes(field, message.finish());
+  }
+
+  /**
+   * Write a packed repeated uint32 field
+   */
+  packedVarints(field: number, values: number[]): this {
+    if (values.length === 0) return this;
+    const packed = new ProtoWriter();
+    for (const value of values) packed.rawVarint(value);
+    return this.bytes(field, packed.finish());
+  }
+
+  /**
+   * Write a packed repeated float field
+   */
+  packedFloats(field: number, values: number[]): this {
+    if (values.length === 0) return this;
+    const buf = Buffer.alloc(values.length * 4);
+    values.forEach((value, idx) => buf.writeFloatLE(value, idx * 4));
+    return this.bytes(field, buf);
+  }
+
+  /**
+   * Get the encoded message
+   */
+  finish(): Uint8Array {
+    return Buffer.concat(this.chunks);
+  }
+
+  private tag(field: number, wireType: number): void {
+    this.rawVarint(field * 8 + wireType);
+  }
+
+  private rawVarint(value: number): void {
+    if (value < 0 || !Number.isSafeInteger(value)) {
+      throw new Error(`Cannot encode ${value} as a protobuf varint`);
+    }
+
+    const bytes: number[] = [];
+    let rest = value;
+    while (rest >= 0x80) {
+      bytes.push((rest % 0x80) | 0x80);
+      rest = Math.floor(rest / 0x80);
+    }
+    bytes.push(rest);
+    this.chunks.push(Uint8Array.from(bytes));
+  }
+}
+
+/**
+ * PackageMetadata.Version
+ * Anki 2.1.55+ also writes `meta` for legacy exports, as LEGACY_2 next to collection.anki21
+ */
+export const PACKAGE_VERSION_LEGACY_2 = 2;
+export const PACKAGE_VERSION_LATEST = 3;
+
+/**
+ * Encode the `meta` entry of an .apkg (PackageMetadata)
+ */
+export function encodePackageMetadata(version: number): Uint8Array {
+  return new ProtoWriter().varint(1, version).finish();
+}
+
+/**
+ * Read the version from the `meta` entry of an .apkg (PackageMetadata)
+ * Returns 0 (unknown) when the version is not set
+ */
+export function decodePackageMetadata(data: Uint8Array): number {
+  let pos = 0;
+  const varint = (): number => {
+    let value = 0;
+    for (let scale = 1; ; scale *= 0x80) {
+      if (pos >= data.length) throw new Error('Truncated package metadata');
+      const byte = data[pos++];
+      value += (byte & 0x7f) * scale;
+      if (byte < 0x80) return value;
+    }
+  };
+
+  let version = 0;
+  while (pos < data.length) {
+    const tag = varint();
+    const wireType = tag % 8;
+    if (wireType === VARINT) {
+      const value = varint();
+      if (Math.floor(tag / 8) === 1) version = value;
+    } else if (wireType === LENGTH_DELIMITED) {
+      pos += varint();
+    } else if (wireType === FIXED64) {
+      pos += 8;
+    } else if (wireType === FIXED32) {
+      pos += 4;
+    } else {
+      throw new Error(`Unsupported protobuf wire type ${wireType} in package metadata`);
+    }
+  }
+  return version;
+}
+
+/**
+ * Media entry of the latest-format media map
+ */
+export interface MediaEntryInfo {
+  index: number;  // Name of the zip entry holding the file
+  filename: string;
+  size: number;
+  sha1: Uint8Array;
+}
+
+/**
+ * Encode the `media` entry of a latest-format .apkg (MediaEntries)
+ */
+export function encodeMediaEntries(entries: MediaEntryInfo[]): Uint8Array {
+  const writer = new ProtoWriter();
+  for (const entry of entries) {
+    const message = new ProtoWriter()
+      .string(1, entry.filename)
+      .varint(2, entry.size)
+      .bytes(3, entry.sha1)
+      .varint(255, entry.index);
+    writer.message(1, message);
+  }
+  return writer.finish();
+}
+
+/**
+ * Encode Notetype.Config for the `notetypes` table
+ */
+export function encodeNotetypeConfig(model: AnkiModel): Uint8Array {
+  const writer = new ProtoWriter()
+    .varint(1, model.type ?? 0)
+    .varint(2, model.sortf ?? 0)
+    .string(3, model.css)
+    .string(5, model.latexPre ?? '')
+    .string(6, model.latexPost ?? '')
+    .bool(7, model.latexsvg ?? false);
+
+  const kinds: Record<string, number> = { none: 0, any: 1, all: 2 };
+  for (const [ord, kind, fieldOrds] of model.req ?? []) {
+    const req = new ProtoWriter()
+      .varint(1, ord)
+      .varint(2, kinds[kind] ?? 0)
+      .packedVarints(3, fieldOrds);
+    writer.message(8, req);
+  }
+  writer.varint(9, model.originalStockKind ?? 0);
+
+  return writer.finish();
+}
+
+/**
+ * Encode Notetype.Field.Config for the `fields` table
+ */
+export function encodeFieldConfig(field: AnkiField): Uint8Array {
+  return new ProtoWriter()
+    .bool(1, field.sticky ?? false)
+    .bool(2, field.rtl ?? false)
+    .string(3, field.font ?? 'Arial')
+    .varint(4, field.size ?? 20)
+    .optionalVarint(10, field.tag)
+    .bool(11, field.preventDeletion ?? false)
+    .finish();
+}
+
+/**
+ * Encode Notetype.Template.Config for the `templates` table
+ */
+export function encodeTemplateConfig(tmpl: AnkiTemplate): Uint8Array {
+  return new ProtoWriter()
+    .string(1, tmpl.qfmt)
+    .string(2, tmpl.afmt)
+    .string(3, tmpl.bqfmt ?? '')
+    .string(4, tmpl.bafmt ?? '')
+    .varint(5, tmpl.did ?? 0)
+    .finish();
+}
+
+/**
+ * Encode Deck.Common for the `decks` table
+ */
+export function encodeDeckCommon(deck: AnkiDeck): Uint8Array {
+  return new ProtoWriter()
+    .bool(1, deck.collapsed ?? false)
+    .finish();
+}
+
+/**
+ * Encode Deck.KindContainer holding a normal deck for the `decks` table
+ */
+export function encodeDeckKind(deck: AnkiDeck): Uint8Array {
+  const normal = new ProtoWriter()
+    .varint(1, deck.conf ?? 1)
+    .varint(2, deck.extendNew ?? 0)
+    .varint(3, deck.extendRev ?? 0)
+    .string(4, deck.desc ?? '');
+  return new ProtoWriter().message(1, normal).finish();
+}
+
+/**
+ * Encode DeckConfig.Config for the `deck_config` table
+ * Converts a legacy JSON options group the same way Anki's schema upgrade does
+ */
+export function encodeDeckConfig(conf: DeckConfig): Uint8Array {
+  const newConf = conf.new;
+  const rev = conf.rev;
+  const lapse = conf.lapse;
+
+  return new ProtoWriter()
+    .packedFloats(1, newConf?.delays ?? [1, 10])
+    .packedFloats(2, lapse?.delays ?? [10])
+    .varint(9, newConf?.perDay ?? 20)
+    .varint(10, rev?.perDay ?? 200)
+    .float(11, (newConf?.initialFactor ?? 2500) / 1000)
+    .float(12, rev?.ease4 ?? 1.3)
+    .float(13, 1.2)  // hard multiplier has no legacy equivalent
+    .float(14, lapse?.mult ?? 0)
+    .float(15, rev?.ivlFct ?? 1)
+    .varint(16, rev?.maxIvl ?? 36500)
+    .varint(17, lapse?.minInt ?? 1)
+    .varint(18, newConf?.ints?.[0] ?? 1)
+    .varint(19, newConf?.ints?.[1] ?? 4)
+    .varint(20, newConf?.order === 0 ? 1 : 0)  // legacy 0 = random, 1 = due
+    .varint(21, lapse?.leechAction ?? 0)
+    .varint(22, lapse?.leechFails ?? 8)
+    .bool(23, !(conf.autoplay ?? true))
+    .varint(24, conf.maxTaken ?? 60)
+    .bool(25, (conf.timer ?? 0) !== 0)
+    .bool(26, !(conf.replayq ?? true))
+    .bool(27, newConf?.bury ?? false)
+    .bool(28, rev?.bury ?? false)
+    .finish();
+}
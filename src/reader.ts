@@ -0,0 +1,191 @@
+/**
+ * Anki .apkg package reader
+ * Loads models, decks and notes so a package can be patched and re-exported
+ */
+
+import { unzipSync } from 'fflate/browser';
+import { Readable } from 'node:stream';
+import initSqlJs from 'sql.js';
+import type { Database } from 'sql.js';
+import { decodePackageMetadata, PACKAGE_VERSION_LATEST } from './protobuf.js';
+import type { AnkiDeck, AnkiModel, AnkiNote, DeckConfig, MediaResolver } from './types.js';
+
+/**
+ * Package data: raw bytes or a stream of them
+ */
+export type PackageSource = Uint8Array | NodeJS.ReadableStream | AsyncIterable<Uint8Array>;
+
+/**
+ * Lazy access to the media files of a package
+ */
+export interface PackageMedia {
+  filenames: string[];
+  has(filename: string): boolean;
+  read(filename: string): Uint8Array;
+  resolver: MediaResolver;  // Ready to pass to createAnkiPackage
+}
+
+/**
+ * Contents of an .apkg package
+ * Notes carry their id, modelId and deckId, so the package can be re-exported as is
+ */
+export interface AnkiPackageContents {
+  models: AnkiModel[];
+  decks: AnkiDeck[];
+  deckConfigs: DeckConfig[];
+  notes: AnkiNote[];
+  media: PackageMedia;
+}
+
+/**
+ * Collection files in order of preference (collection.anki21 is newer than .anki2)
+ */
+const COLLECTION_NAMES = ['collection.anki21', 'collection.anki2'];
+
+/**
+ * Read an .apkg package from a buffer or stream
+ */
+export async function readAnkiPackage(source: PackageSource): Promise<AnkiPackageContents> {
+  const data = source instanceof Uint8Array ? source : await readAll(source);
+
+  const files = unzipSync(data, {
+    filter: file => ['media', 'meta'].includes(file.name) || COLLECTION_NAMES.includes(file.name)
+  });
+
+  // Latest-format packages only carry a stub in collection.anki2; legacy
+  // exports from recent Anki versions have a `meta` too
+  if (files.meta && decodePackageMetadata(files.meta) >= PACKAGE_VERSION_LATEST) {
+    throw new Error('Reading latest-format (collection.anki21b) packages is not supported');
+  }
+
+  const collectionName = COLLECTION_NAMES.find(name => name in files);
+  if (!collectionName) {
+    throw new Error('Package has no collection.anki2 or collection.anki21');
+  }
+
+  const collection = await readCollection(files[collectionName]);
+  const manifest = files.media ? parseMediaManifest(files.media) : {};
+
+  return { ...collection, media: createPackageMedia(data, manifest) };
+}
+
+/**
+ * Read models, decks, options groups and notes from a schema 11 collection
+ */
+async function readCollection(data: Uint8Array): Promise<Omit<AnkiPackageContents, 'media'>> {
+  const SQL = await initSqlJs();
+  const db = new SQL.Database(data);
+
+  try {
+    const [col] = db.exec('SELECT models, decks, dconf FROM col');
+    const [modelsJson, decksJson, dconfJson] = col.values[0] as [string, string, string];
+    const models = Object.values(JSON.parse(modelsJson) as Record<string, AnkiModel>);
+    const allDecks = Object.values(JSON.parse(decksJson) as Record<string, AnkiDeck>);
+    const deckConfigs = Object.values(JSON.parse(dconfJson) as Record<string, DeckConfig>);
+
+    // Cards in filtered decks keep their home deck in odid
+    const notes: AnkiNote[] = [];
+    const stmt = db.prepare(`
+      SELECT n.id, n.guid, n.mid, n.tags, n.flds,
+        (SELECT CASE WHEN c.odid != 0 THEN c.odid ELSE c.did END
+         FROM cards c WHERE c.nid = n.id ORDER BY c.ord LIMIT 1)
+      FROM notes n ORDER BY n.id
+    `);
+    try {
+      while (stmt.step()) {
+        const [id, guid, mid, tags, flds, did] = stmt.get() as [number, string, number, string, string, number | null];
+        notes.push({
+          id,
+          fields: flds.split('\x1f'),
+          tags: tags.split(/\s+/).filter(tag => tag.length > 0),
+          guid,
+          modelId: mid,
+          deckId: did ?? undefined
+        });
+      }
+    } finally {
+      stmt.free();
+    }
+
+    readCardDecks(db, notes, models);
+
+    // Skip filtered decks, and the built-in Default deck unless notes use it
+    const usedDeckIds = new Set(notes.flatMap(note => [note.deckId, ...Object.values(note.cardDecks ?? {})]));
+    const decks = allDecks.filter(deck => !deck.dyn && (deck.id !== 1 || usedDeckIds.has(1)));
+
+    return { models, decks, deckConfigs, notes };
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * Set `cardDecks` for cards that are not in the deck their note and template
+ * would place them in, so a re-export keeps every card where it was
+ */
+function readCardDecks(db: Database, notes: AnkiNote[], models: AnkiModel[]): void {
+  const notesById = new Map(notes.map(note => [note.id, note]));
+  const modelsById = new Map(models.map(model => [model.id, model]));
+
+  const stmt = db.prepare('SELECT nid, ord, CASE WHEN odid != 0 THEN odid ELSE did END FROM cards');
+  try {
+    while (stmt.step()) {
+      const [nid, ord, did] = stmt.get() as [number, number, number];
+      const note = notesById.get(nid);
+      if (!note) continue;
+
+      const model = note.modelId === undefined ? undefined : modelsById.get(note.modelId);
+      const tmpl = model?.type === 1 ? model.tmpls[0] : model?.tmpls.find(t => t.ord === ord);
+      if (did !== (tmpl?.did ?? note.deckId)) {
+        note.cardDecks = { ...note.cardDecks, [ord]: did };
+      }
+    }
+  } finally {
+    stmt.free();
+  }
+}
+
+/**
+ * Parse the legacy JSON media manifest ({"0": "file.mp3"})
+ */
+function parseMediaManifest(data: Uint8Array): Record<string, string> {
+  const text = Buffer.from(data).toString('utf8');
+  return text.trim() === '' ? {} : JSON.parse(text) as Record<string, string>;
+}
+
+/**
+ * Create lazy media accessors; files are only decompressed when read
+ */
+function createPackageMedia(data: Uint8Array, manifest: Record<string, string>): PackageMedia {
+  const entries = new Map<string, string>();
+  for (const [entryName, filename] of Object.entries(manifest)) {
+    entries.set(filename, entryName);
+  }
+
+  const read = (filename: string): Uint8Array => {
+    const entryName = entries.get(filename);
+    if (entryName === undefined) throw new Error(`Media file ${filename} not found in package`);
+
+    const files = unzipSync(data, { filter: file => file.name === entryName });
+    if (!(entryName in files)) throw new Error(`Media file ${filename} is missing from the archive`);
+    return files[entryName];
+  };
+
+  return {
+    filenames: Array.from(entries.keys()),
+    has: filename => entries.has(filename),
+    read,
+    resolver: filename => Promise.resolve().then(() => Readable.from([read(filename)]))
+  };
+}
+
+/**
+ * Read a whole stream into memory
+ */
+async function readAll(stream: NodeJS.ReadableStream | AsyncIterable<Uint8Array>): Promise<Uint8Array> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(typeof chunk === 'string' ? Buffer.from(chunk) : Buffer.from(chunk as Uint8Array));
+  }
+  return Buffer.concat(chunks);
+}
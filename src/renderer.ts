@@ -0,0 +1,213 @@
+/**
+ * Card preview renderer
+ * Renders AnkiTemplate qfmt/afmt to HTML the way Anki does, for previews and tests
+ */
+
+import { parseCloze } from './cloze.js';
+import type { ClozeNode } from './cloze.js';
+import { isFieldEmpty, parseTemplate } from './template.js';
+import type { TemplateNode } from './template.js';
+import type { AnkiModel, AnkiNote } from './types.js';
+import { stripHtml } from './utils.js';
+
+/**
+ * Card rendering options
+ */
+export interface RenderCardOptions {
+  ord?: number;  // Template ord, or cloze number - 1 for cloze models (default 0)
+  deckName?: string;  // Used for {{Deck}} and {{Subdeck}}
+  flag?: number;  // Used for {{CardFlag}}
+}
+
+/**
+ * Rendered card HTML, with the model CSS inlined
+ */
+export interface RenderedCard {
+  question: string;
+  answer: string;
+}
+
+/**
+ * Values available to a template while rendering one side of a card
+ */
+interface RenderContext {
+  fields: Map<string, string>;
+  special: Map<string, string>;
+  clozeOrd: number;
+  question: boolean;
+  hintCount: number;
+}
+
+/**
+ * Render both sides of a card
+ */
+export function renderCard(model: AnkiModel, note: AnkiNote, options: RenderCardOptions = {}): RenderedCard {
+  const ord = options.ord ?? 0;
+  const isCloze = model.type === 1;
+  const tmpl = isCloze ? model.tmpls[0] : model.tmpls.find(t => t.ord === ord);
+  if (!tmpl) throw new Error(`Model ${model.id} has no template with ord ${ord}`);
+
+  const fields = new Map<string, string>();
+  for (const field of model.flds) {
+    fields.set(field.name, note.fields[field.ord] ?? '');
+  }
+
+  const deckName = options.deckName ?? '';
+  const special = new Map<string, string>([
+    ['Tags', (note.tags ?? []).join(' ')],
+    ['Type', model.name],
+    ['Deck', deckName],
+    ['Subdeck', deckName.split('::').pop() ?? ''],
+    ['Card', tmpl.name],
+    ['CardFlag', options.flag ? `flag${options.flag}` : '']
+  ]);
+
+  const context: RenderContext = { fields, special, clozeOrd: ord + 1, question: true, hintCount: 0 };
+  const question = renderNodes(parseTemplate(tmpl.qfmt), context);
+
+  special.set('FrontSide', question);
+  const answer = renderNodes(parseTemplate(tmpl.afmt), { ...context, question: false });
+
+  return {
+    question: wrapCard(model, ord, question),
+    answer: wrapCard(model, ord, answer)
+  };
+}
+
+/**
+ * Wrap rendered HTML in Anki's card container with the model CSS
+ */
+function wrapCard(model: AnkiModel, ord: number, html: string): string {
+  return `<style>${model.css}</style><div class="card card${ord + 1}">${html}</div>`;
+}
+
+/**
+ * Render parsed template nodes
+ */
+function renderNodes(nodes: TemplateNode[], context: RenderContext): string {
+  let html = '';
+
+  for (const node of nodes) {
+    if (node.type === 'text') {
+      html += node.text;
+    } else if (node.type === 'conditional') {
+      const value = context.fields.get(node.key) ?? context.special.get(node.key) ?? '';
+      if (isFieldEmpty(value) === node.negated) {
+        html += renderNodes(node.children, context);
+      }
+    } else {
+      html += renderReplacement(node.key, node.filters, context);
+    }
+  }
+
+  return html;
+}
+
+/**
+ * Render a {{filter:Field}} replacement, applying filters innermost first
+ */
+function renderReplacement(key: string, filters: string[], context: RenderContext): string {
+  let value = context.fields.get(key) ?? context.special.get(key);
+  if (value === undefined) return `{unknown field ${key}}`;
+
+  for (const filter of filters) {
+    const [name, ...args] = filter.split(/\s+/);
+    switch (name) {
+      case 'text':
+        value = stripHtml(value);
+        break;
+      case 'cloze':
+        value = renderCloze(value, context.clozeOrd, context.question);
+        break;
+      case 'hint':
+        value = renderHint(key, value, ++context.hintCount);
+        break;
+      case 'type':
+        value = renderTypeAnswer(context.fields.get(key) ?? '', filters.includes('cloze') ? context.clozeOrd : 0, context.question);
+        break;
+      case 'tts':
+        value = `[anki:tts ${args.map(arg => arg.includes('=') ? arg : `lang=${arg}`).join(' ')}]${value}[/anki:tts]`;
+        break;
+      default:
+        // Filters that only affect Anki's reviewer (furigana etc.) pass through
+        break;
+    }
+  }
+
+  return value;
+}
+
+/**
+ * Render cloze deletions for one card; other deletions show their text
+ * Returns an empty string when the field has no deletion for this card
+ */
+function renderCloze(text: string, ord: number, question: boolean): string {
+  const nodes = parseCloze(text);
+  if (!hasClozeOrd(nodes, ord)) return '';
+
+  const render = (items: ClozeNode[]): string => items.map(node => {
+    if (typeof node === 'string') return node;
+    if (node.ord !== ord) {
+      return `<span class="cloze-inactive" data-ordinal="${node.ord}">${render(node.children)}</span>`;
+    }
+    const content = question ? `[${node.hint ?? '...'}]` : render(node.children);
+    return `<span class="cloze" data-ordinal="${node.ord}">${content}</span>`;
+  }).join('');
+
+  return render(nodes);
+}
+
+/**
+ * Check whether cloze nodes contain a deletion with the given number
+ */
+function hasClozeOrd(nodes: ClozeNode[], ord: number): boolean {
+  return nodes.some(node => typeof node !== 'string' && (node.ord === ord || hasClozeOrd(node.children, ord)));
+}
+
+/**
+ * Collect the text of the active deletions, used as the expected typed answer
+ */
+function activeClozeText(nodes: ClozeNode[], ord: number): string[] {
+  return nodes.flatMap(node => {
+    if (typeof node === 'string') return [];
+    if (node.ord === ord) return [stripHtml(flattenCloze(node.children))];
+    return activeClozeText(node.children, ord);
+  });
+}
+
+/**
+ * Flatten cloze nodes back to their plain text
+ */
+function flattenCloze(nodes: ClozeNode[]): string {
+  return nodes.map(node => typeof node === 'string' ? node : flattenCloze(node.children)).join('');
+}
+
+/**
+ * Render a collapsed hint link for {{hint:Field}}
+ */
+function renderHint(fieldName: string, text: string, id: number): string {
+  if (isFieldEmpty(text)) return '';
+
+  return `<a class="hint" href="#" onclick="this.style.display='none';` +
+    `document.getElementById('hint${id}').style.display='block';return false;">${fieldName}</a>` +
+    `<div id="hint${id}" class="hint" style="display: none">${text}</div>`;
+}
+
+/**
+ * Render {{type:Field}}: an input box on the question, the expected answer on the back
+ */
+function renderTypeAnswer(value: string, clozeOrd: number, question: boolean): string {
+  if (question) return '<input type="text" id="typeans">';
+
+  const expected = clozeOrd > 0
+    ? activeClozeText(parseCloze(value), clozeOrd).join(', ')
+    : stripHtml(value);
+  return `<code id="typeans">${escapeHtml(expected)}</code>`;
+}
+
+/**
+ * Escape text for use inside HTML
+ */
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
@@ -0,0 +1,217 @@
+/**
+ * Anki's stock note types
+ * Match the note types a fresh Anki profile creates, so cards look and behave
+ * the same as ones made in Anki itself
+ */
+
+import crypto from 'node:crypto';
+import type { AnkiField, AnkiModel, AnkiTemplate } from './types.js';
+import { generateRequirements } from './utils.js';
+
+/**
+ * Overrides for a stock note type
+ */
+export interface StockModelOptions {
+  id?: number;  // Default derived from the name, so re-exports update the same note type
+  name?: string;
+  css?: string;
+}
+
+/**
+ * Anki's OriginalStockKind, recorded on the note types it creates
+ */
+export const STOCK_KINDS = {
+  basic: 1,
+  basicAndReversed: 2,
+  basicOptionalReversed: 3,
+  basicTyping: 4,
+  cloze: 5,
+  imageOcclusion: 6
+} as const;
+
+/**
+ * Default note type CSS
+ */
+const DEFAULT_CSS = `.card {
+    font-family: arial;
+    font-size: 20px;
+    line-height: 1.5;
+    text-align: center;
+    color: black;
+    background-color: white;
+}
+`;
+
+/**
+ * Default cloze note type CSS
+ */
+const CLOZE_CSS = `${DEFAULT_CSS}
+.cloze {
+    font-weight: bold;
+    color: blue;
+}
+.nightMode .cloze {
+    color: lightblue;
+}
+`;
+
+/**
+ * Default image occlusion note type CSS, with the mask colors Anki's script reads
+ */
+const IMAGE_OCCLUSION_CSS = `#image-occlusion-canvas {
+    --inactive-shape-color: #ffeba2;
+    --active-shape-color: #ff8e8e;
+    --inactive-shape-border: 1px #212121;
+    --active-shape-border: 1px #212121;
+    --highlight-shape-color: #ff8e8e00;
+    --highlight-shape-border: 1px #ff8e8e;
+}
+
+${DEFAULT_CSS}`;
+
+/**
+ * Image occlusion question: hidden cloze field for the masks, and the script
+ * that draws them over the image
+ */
+const IMAGE_OCCLUSION_QFMT = `{{#Header}}<div>{{Header}}</div>{{/Header}}
+<div style="display: none">{{cloze:Occlusion}}</div>
+<div id="err"></div>
+<div id="image-occlusion-container">
+    {{Image}}
+    <canvas id="image-occlusion-canvas"></canvas>
+</div>
+<script>
+try {
+    anki.imageOcclusion.setup();
+} catch (exc) {
+    document.getElementById("err").innerHTML = \`Error loading image occlusion. Is your Anki version up to date?<br><br>\${exc}\`;
+}
+</script>
+`;
+
+/**
+ * Derive a stable model ID from a note type name (between 2^30 and 2^31)
+ */
+export function modelIdFromName(name: string): number {
+  const hash = crypto.createHash('sha1').update(`model:${name}`, 'utf8').digest();
+  return (hash.readUInt32BE(0) % (1 << 30)) + (1 << 30);
+}
+
+/**
+ * "Basic": one card showing Front, answered with Back
+ */
+export function basicModel(options: StockModelOptions = {}): AnkiModel {
+  return stockModel(options, 'Basic', STOCK_KINDS.basic, ['Front', 'Back'], [
+    template('Card 1', '{{Front}}', '{{FrontSide}}\n\n<hr id=answer>\n\n{{Back}}')
+  ]);
+}
+
+/**
+ * "Basic (and reversed card)": a Front -> Back and a Back -> Front card
+ */
+export function basicAndReversedModel(options: StockModelOptions = {}): AnkiModel {
+  return stockModel(options, 'Basic (and reversed card)', STOCK_KINDS.basicAndReversed, ['Front', 'Back'], [
+    template('Card 1', '{{Front}}', '{{FrontSide}}\n\n<hr id=answer>\n\n{{Back}}'),
+    template('Card 2', '{{Back}}', '{{FrontSide}}\n\n<hr id=answer>\n\n{{Front}}')
+  ]);
+}
+
+/**
+ * "Basic (optional reversed card)": the reverse card is only created when
+ * the Add Reverse field is not empty
+ */
+export function basicOptionalReversedModel(options: StockModelOptions = {}): AnkiModel {
+  return stockModel(
+    options,
+    'Basic (optional reversed card)',
+    STOCK_KINDS.basicOptionalReversed,
+    ['Front', 'Back', 'Add Reverse'],
+    [
+      template('Card 1', '{{Front}}', '{{FrontSide}}\n\n<hr id=answer>\n\n{{Back}}'),
+      template('Card 2', '{{#Add Reverse}}{{Back}}{{/Add Reverse}}', '{{FrontSide}}\n\n<hr id=answer>\n\n{{Front}}')
+    ]
+  );
+}
+
+/**
+ * "Basic (type in the answer)": the answer is typed in and compared to Back
+ */
+export function basicTypingModel(options: StockModelOptions = {}): AnkiModel {
+  return stockModel(options, 'Basic (type in the answer)', STOCK_KINDS.basicTyping, ['Front', 'Back'], [
+    template('Card 1', '{{Front}}\n\n{{type:Back}}', '{{Front}}\n\n<hr id=answer>\n\n{{type:Back}}')
+  ]);
+}
+
+/**
+ * "Cloze": one card per cloze number in Text
+ */
+export function clozeModel(options: StockModelOptions = {}): AnkiModel {
+  return {
+    ...stockModel({ ...options, css: options.css ?? CLOZE_CSS }, 'Cloze', STOCK_KINDS.cloze, ['Text', 'Back Extra'], [
+      template('Cloze', '{{cloze:Text}}', '{{cloze:Text}}<br>\n{{Back Extra}}')
+    ]),
+    type: 1
+  };
+}
+
+/**
+ * "Image Occlusion": one card per mask group in Occlusion, drawn over the
+ * image in Image by Anki 23.10+
+ * Occlusion holds Anki's shape clozes, e.g.
+ * `{{c1::image-occlusion:rect:left=.1:top=.2:width=.3:height=.1}}`, and Image
+ * an `<img>` tag. Fields carry the tags Anki's occlusion editor looks for.
+ */
+export function imageOcclusionModel(options: StockModelOptions = {}): AnkiModel {
+  const model = stockModel(
+    { ...options, css: options.css ?? IMAGE_OCCLUSION_CSS },
+    'Image Occlusion',
+    STOCK_KINDS.imageOcclusion,
+    ['Occlusion', 'Image', 'Header', 'Back Extra', 'Comments'],
+    [
+      template(
+        'Image Occlusion',
+        IMAGE_OCCLUSION_QFMT,
+        `${IMAGE_OCCLUSION_QFMT}\n<div><button id="toggle">Toggle Masks</button></div>\n{{#Back Extra}}<div>{{Back Extra}}</div>{{/Back Extra}}\n`
+      )
+    ]
+  );
+
+  return {
+    ...model,
+    type: 1,
+    flds: model.flds.map(field => ({ ...field, tag: field.ord, preventDeletion: field.ord < 4 }))
+  };
+}
+
+/**
+ * Assemble a stock note type with its card requirements
+ */
+function stockModel(
+  options: StockModelOptions,
+  defaultName: string,
+  kind: number,
+  fieldNames: string[],
+  tmpls: AnkiTemplate[]
+): AnkiModel {
+  const name = options.name ?? defaultName;
+  const flds: AnkiField[] = fieldNames.map((fieldName, ord) => ({ name: fieldName, ord }));
+  const templates = tmpls.map((tmpl, ord) => ({ ...tmpl, ord }));
+
+  return {
+    id: options.id ?? modelIdFromName(name),
+    name,
+    type: 0,
+    flds,
+    tmpls: templates,
+    css: options.css ?? DEFAULT_CSS,
+    req: generateRequirements(templates, flds),
+    originalStockKind: kind
+  };
+}
+
+/**
+ * Build a card template; ordinals are assigned by stockModel
+ */
+function template(name: string, qfmt: string, afmt: string): AnkiTemplate {
+  return { name, ord: 0, qfmt, afmt };
+}
@@ -0,0 +1,159 @@
+/**
+ * Card template parsing
+ * Handles the Mustache subset Anki uses: {{Field}}, {{filter:Field}},
+ * {{#Field}}...{{/Field}} and {{^Field}}...{{/Field}}
+ */
+
+import type { AnkiField } from './types.js';
+
+/**
+ * Parsed template node
+ */
+export type TemplateNode =
+  | { type: 'text'; text: string }
+  | { type: 'replacement'; key: string; filters: string[] }
+  | { type: 'conditional'; key: string; negated: boolean; children: TemplateNode[] };
+
+/**
+ * Card requirement kind as stored in the model `req` array
+ */
+export type RequirementKind = 'any' | 'all' | 'none';
+
+/**
+ * Fields that Anki fills in itself rather than from the note
+ */
+export const SPECIAL_FIELDS: readonly string[] = [
+  'FrontSide',
+  'Card',
+  'CardFlag',
+  'CardID',
+  'Deck',
+  'Subdeck',
+  'Tags',
+  'Type'
+];
+
+/**
+ * Parse a template into a node tree
+ * Throws on unbalanced conditionals
+ */
+export function parseTemplate(template: string): TemplateNode[] {
+  const root: TemplateNode[] = [];
+  const stack: { key: string; children: TemplateNode[] }[] = [];
+  let current = root;
+
+  let pos = 0;
+  for (const match of template.matchAll(/\{\{(.*?)\}\}/gs)) {
+    if (match.index > pos) {
+      current.push({ type: 'text', text: template.slice(pos, match.index) });
+    }
+    pos = match.index + match[0].length;
+
+    const tag = match[1].trim();
+    const prefix = tag.charAt(0);
+
+    if (prefix === '#' || prefix === '^') {
+      const conditional: TemplateNode = {
+        type: 'conditional',
+        key: tag.slice(1).trim(),
+        negated: prefix === '^',
+        children: []
+      };
+      current.push(conditional);
+      stack.push({ key: conditional.key, children: current });
+      current = conditional.children;
+    } else if (prefix === '/') {
+      const key = tag.slice(1).trim();
+      const open = stack.pop();
+      if (!open) {
+        throw new Error(`Template has {{/${key}}} without a matching {{#${key}}}`);
+      }
+      if (open.key !== key) {
+        throw new Error(`Template closes {{/${key}}} but {{#${open.key}}} is still open`);
+      }
+      current = open.children;
+    } else {
+      const parts = tag.split(':').map(part => part.trim());
+      const key = parts.pop() ?? '';
+      current.push({ type: 'replacement', key, filters: parts.reverse() });
+    }
+  }
+
+  if (pos < template.length) {
+    current.push({ type: 'text', text: template.slice(pos) });
+  }
+
+  if (stack.length > 0) {
+    throw new Error(`Template is missing {{/${stack[stack.length - 1].key}}}`);
+  }
+
+  return root;
+}
+
+/**
+ * Check whether a field value counts as empty (whitespace, <br> and <div> only)
+ */
+export function isFieldEmpty(text: string): boolean {
+  return /^(?:\s|<\/?(?:br|div) ?\/?>)*$/i.test(text);
+}
+
+/**
+ * Get the names of the non-empty fields of a note
+ */
+export function getNonEmptyFieldNames(fields: AnkiField[], values: string[]): Set<string> {
+  const names = new Set<string>();
+  for (const field of fields) {
+    const value = values[field.ord];
+    if (value !== undefined && !isFieldEmpty(value)) {
+      names.add(field.name);
+    }
+  }
+  return names;
+}
+
+/**
+ * Check whether a template renders any field content when only the given
+ * fields are non-empty. Static text and special fields do not count.
+ */
+export function rendersWithFields(nodes: TemplateNode[], nonEmpty: Set<string>): boolean {
+  for (const node of nodes) {
+    if (node.type === 'replacement') {
+      if (nonEmpty.has(node.key)) return true;
+    } else if (node.type === 'conditional') {
+      if (nonEmpty.has(node.key) === node.negated) continue;
+      if (rendersWithFields(node.children, nonEmpty)) return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Compute which fields a question template needs to produce a card
+ * "any": one of the fields must be non-empty; "all": all of them must be
+ */
+export function computeRequirements(
+  nodes: TemplateNode[],
+  fields: AnkiField[]
+): [RequirementKind, number[]] {
+  const nonEmpty = new Set<string>();
+
+  const any = fields.filter(field => rendersWithFields(nodes, new Set([field.name])));
+  if (any.length > 0) {
+    return ['any', any.map(field => field.ord)];
+  }
+
+  for (const field of fields) nonEmpty.add(field.name);
+
+  const all = fields.filter(field => {
+    nonEmpty.delete(field.name);
+    const required = !rendersWithFields(nodes, nonEmpty);
+    nonEmpty.add(field.name);
+    return required;
+  });
+
+  if (all.length > 0 && rendersWithFields(nodes, nonEmpty)) {
+    return ['all', all.map(field => field.ord)];
+  }
+
+  return ['none', []];
+}
@@ -13,6 +13,8 @@ export interface AnkiField {
   rtl?: boolean;
   font?: string;
   size?: number;
+  tag?: number;  // Identifies the field to Anki regardless of its name, e.g. for image occlusion
+  preventDeletion?: boolean;
 }
 
 /**
@@ -25,7 +27,7 @@ export interface AnkiTemplate {
   afmt: string;  // Answer format (HTML)
   bqfmt?: string;
   bafmt?: string;
-  did?: number | null;
+  did?: number | null;  // Deck for this template's cards, unless the note overrides it
 }
 
 /**
@@ -48,8 +50,17 @@ export interface AnkiModel {
   req?: [number, string, number[]][];  // Requirements for card generation
   tags?: string[];
   vers?: unknown[];
+  originalStockKind?: number;  // Stock note type the model is based on (see STOCK_KINDS)
+  assets?: ModelAsset[];  // Files the model needs; not stored in the collection
+  keyFields?: string[];  // Fields that identify a note for its generated GUID (default all); not stored
 }
 
+/**
+ * Static file a model needs, such as a font or script (`_font.woff2`)
+ * Either a filename fetched through the MediaResolver, or inline content
+ */
+export type ModelAsset = string | { filename: string; data: Uint8Array };
+
 /**
  * Anki Deck Definition
  */
@@ -74,9 +85,44 @@ export interface AnkiDeck {
  * Note data for adding to deck
  */
 export interface AnkiNote {
+  id?: number;  // Keep the same id across exports; generated from the clock if not provided
   fields: string[];
   tags?: string[];
-  guid?: string;  // If not provided, will be auto-generated
+  guid?: string;  // If not provided, generated from the model's key fields
+  modelId?: number;  // May be omitted when the package has a single model
+  deckId?: number;  // May be omitted when the package has a single deck
+  cardDecks?: Record<number, number>;  // Deck ids by card ordinal, overriding template and note decks
+  schedule?: CardSchedule;  // Study progress for every card of the note (default new); reviews go to the first card
+  cards?: Record<number, CardSchedule>;  // Study progress by card ordinal, overriding `schedule`
+}
+
+/**
+ * Study progress of a card, e.g. migrated from another SRS app
+ * Times are Dates or milliseconds since the epoch
+ */
+export interface CardSchedule {
+  state: 'new' | 'learning' | 'review' | 'relearning';
+  due?: Date | number;  // Required unless new
+  interval?: number;  // Days (default 0, or 1 for review cards)
+  ease?: number;  // Ease factor in permille (default 2500)
+  reps?: number;
+  lapses?: number;
+  suspended?: boolean;
+  buried?: boolean;
+  reviews?: ReviewLogEntry[];  // Written to the revlog table
+}
+
+/**
+ * A past review of a card
+ */
+export interface ReviewLogEntry {
+  time: Date | number;  // When the card was answered
+  button: 1 | 2 | 3 | 4;  // Again, Hard, Good, Easy
+  interval: number;  // Interval after the review, in days; negative for seconds
+  lastInterval?: number;  // Interval before the review, in the same units
+  ease?: number;  // Ease factor after the review, in permille
+  durationMs?: number;  // Time taken to answer
+  type?: 'learn' | 'review' | 'relearn' | 'cram' | 'manual';  // Default 'review'
 }
 
 /**
@@ -99,57 +145,87 @@ export interface CollectionConfig {
 }
 
 /**
- * Deck configuration
+ * Deck options group (stored in col.dconf)
+ * Settings left out take Anki's defaults
  */
 export interface DeckConfig {
   id: number;
   name: string;
   replayq?: boolean;
   lapse?: {
-    leechFails: number;
-    minInt: number;
-    delays: number[];
-    leechAction: number;
-    mult: number;
+    leechFails?: number;
+    minInt?: number;
+    delays?: number[];  // Relearning steps in minutes
+    leechAction?: number;  // 0 = suspend, 1 = tag only
+    mult?: number;  // New interval after a lapse, as a fraction of the old one
   };
   rev?: {
-    perDay: number;
-    fuzz: number;
-    ivlFct: number;
-    maxIvl: number;
-    ease4: number;
-    bury: boolean;
-    minSpace: number;
+    perDay?: number;
+    fuzz?: number;
+    ivlFct?: number;
+    maxIvl?: number;  // Maximum interval in days
+    ease4?: number;  // Easy bonus
+    bury?: boolean;
+    minSpace?: number;
   };
   timer?: number;
   maxTaken?: number;
   usn?: number;
   new?: {
-    perDay: number;
-    delays: number[];
-    ints: number[];
-    initialFactor: number;
-    separate: boolean;
-    order: number;
-    bury: boolean;
+    perDay?: number;
+    delays?: number[];  // Learning steps in minutes
+    ints?: number[];  // Graduating, easy and unused intervals in days
+    initialFactor?: number;  // Starting ease in permille
+    separate?: boolean;
+    order?: number;  // 0 = random, 1 = in order added
+    bury?: boolean;
   };
   mod?: number;
   autoplay?: boolean;
 }
 
+/**
+ * Package format
+ * legacy: collection.anki2 (schema 11), importable by every Anki version
+ * latest: zstd-compressed collection.anki21b (schema 18) for Anki 2.1.50+,
+ *         with a collection.anki2 stub asking older clients to upgrade
+ */
+export type PackageFormat = 'legacy' | 'latest';
+
+/**
+ * Source of the current time in milliseconds, like Date.now
+ * A constant clock makes ids and timestamps reproducible
+ */
+export type Clock = () => number;
+
 /**
  * Media file resolver function type
- * Takes a filename and returns a Readable stream
+ * Takes a filename and returns a Readable stream. `signal` aborts when the
+ * package is cancelled, e.g. to pass on to fetch().
  */
-export type MediaResolver = (filename: string) => Promise<NodeJS.ReadableStream>;
+export type MediaResolver = (
+  filename: string,
+  options?: { signal?: AbortSignal }
+) => Promise<NodeJS.ReadableStream>;
 
 /**
- * Package writer options
+ * Logger accepted by the package writer; console, pino and winston all fit
  */
-export interface PackageWriterOptions {
-  model: AnkiModel;
-  deck: AnkiDeck;
-  notes: AnkiNote[];
-  mediaResolver: MediaResolver;
-  output: NodeJS.WritableStream;
+export interface Logger {
+  debug(message: string, ...args: unknown[]): void;
+  info(message: string, ...args: unknown[]): void;
+  warn(message: string, ...args: unknown[]): void;
+  error(message: string, ...args: unknown[]): void;
 }
+
+/**
+ * Progress event emitted while a package is written
+ * Media `completed`/`total` count every referenced file, resolved or failed
+ */
+export type ProgressEvent =
+  | { type: 'notes-inserted'; count: number; total: number }
+  | { type: 'media-resolved'; filename: string; bytes?: number; completed: number; total: number }  // bytes unknown when streaming
+  | { type: 'media-failed'; filename: string; action: 'skipped' | 'placeholder'; error: Error; completed: number; total: number }
+  | { type: 'media-written'; filename: string; index: number; bytes: number }
+  | { type: 'database-exported'; bytes: number }
+  | { type: 'archive-finalized'; bytes: number; notes: number; mediaFiles: number };
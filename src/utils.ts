@@ -3,6 +3,8 @@
  */
 
 import crypto from 'node:crypto';
+import { computeRequirements, parseTemplate } from './template.js';
+import type { AnkiField, AnkiTemplate, Clock, CollectionConfig, DeckConfig } from './types.js';
 
 /**
  * Base91 encoding alphabet (Anki-specific)
@@ -51,6 +53,17 @@ export function generateGuid(...fields: unknown[]): string {
   return toBase91(hashInt);
 }
 
+/**
+ * Derive a card id from its note id and template ordinal
+ * Anki reads card ids as creation times in milliseconds, so they stay close
+ * to the note id; re-exported notes keep their card ids, and with them the
+ * review history. Note ids must be spaced by at least their model's number
+ * of templates (or cloze numbers) so cards of different notes do not collide.
+ */
+export function generateCardId(noteId: number, ord: number): number {
+  return noteId + ord;
+}
+
 /**
  * ID generator that produces sequential timestamps
  */
@@ -65,6 +78,13 @@ export class IdGenerator {
     return this.currentId++;
   }
 
+  /**
+   * Make sure later ids are above `id`
+   */
+  skipPast(id: number): void {
+    this.currentId = Math.max(this.currentId, id + 1);
+  }
+
   peek(): number {
     return this.currentId;
   }
@@ -87,39 +107,235 @@ export function generateModelId(): number {
 /**
  * Get current timestamp in seconds
  */
-export function timestampSeconds(): number {
-  return Math.floor(Date.now() / 1000);
+export function timestampSeconds(clock: Clock = Date.now): number {
+  return Math.floor(clock() / 1000);
 }
 
 /**
  * Get current timestamp in milliseconds
  */
-export function timestampMillis(): number {
-  return Date.now();
+export function timestampMillis(clock: Clock = Date.now): number {
+  return clock();
 }
 
 /**
- * Extract media filenames from HTML content
- * Looks for [sound:filename] and <img src="filename">
+ * Where a media reference appears: note or template HTML, or model CSS
  */
-export function extractMediaFilenames(html: string): string[] {
-  const filenames: string[] = [];
+export type MediaContext = 'html' | 'css';
 
-  // Match [sound:filename]
-  const soundMatches = html.matchAll(/\[sound:([^\]]+)\]/g);
-  for (const match of soundMatches) {
-    filenames.push(match[1]);
-  }
+/**
+ * [sound:filename] tags, also used for video
+ */
+const SOUND_TAG = /\[sound:([^\]]+)\]/g;
+
+/**
+ * HTML tags that can point at media files, and their media attributes
+ * Templates load `_`-prefixed scripts and stylesheets from the media folder too
+ */
+const MEDIA_TAG = /<(?:img|audio|video|source|track|embed|object|script|link)\b[^>]*>/gi;
+const MEDIA_ATTRIBUTE = /(\s(?:src|poster|data|href)\s*=\s*)(?:"([^"]*)"|'([^']*)'|([^\s"'>]+))/gi;
+
+/**
+ * Places in HTML that hold CSS: style attributes and <style> elements
+ */
+const STYLE_ATTRIBUTE = /(\sstyle\s*=\s*)("[^"]*"|'[^']*')/gi;
+const STYLE_ELEMENT = /(<style\b[^>]*>)(.*?)(<\/style>)/gis;
+
+/**
+ * CSS url(), with the reference double-quoted, single-quoted, entity-quoted or bare
+ */
+const CSS_URL = /url\(\s*(?:"([^"]*)"|'([^']*)'|&quot;(.*?)&quot;|([^"')\s]*))\s*\)/gi;
+
+/**
+ * References that are not files in the media folder: URLs with a scheme
+ * (http:, https:, data: ...), protocol-relative URLs and template fields
+ */
+function isRemoteReference(reference: string): boolean {
+  return /^(?:[a-z][a-z\d+.-]*:|\/\/)/i.test(reference) || reference.includes('{{');
+}
 
-  // Match <img src="filename">
-  const imgMatches = html.matchAll(/<img[^>]+src=["']([^"']+)["']/gi);
-  for (const match of imgMatches) {
-    filenames.push(match[1]);
+/**
+ * Decode %XX escapes, leaving malformed sequences as they are
+ */
+function decodeUrl(text: string): string {
+  try {
+    return decodeURIComponent(text);
+  } catch {
+    return text;
   }
+}
+
+/**
+ * Escape a filename for use in HTML text or a quoted attribute
+ */
+function escapeAttribute(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/'/g, '&#39;');
+}
+
+/**
+ * Visit every local media reference and rewrite it with `map`
+ * Filenames are passed to `map` decoded; references it leaves unchanged keep their original text.
+ * When `map` returns null the reference is removed: the [sound:] or media tag is dropped,
+ * and a CSS url() becomes `none`.
+ */
+function mapMediaReferences(
+  text: string,
+  context: MediaContext,
+  map: (filename: string) => string | null
+): string {
+  const html = context === 'html';
 
+  // undefined keeps the reference as written, null removes it
+  const rewrite = (reference: string, url: boolean): string | null | undefined => {
+    let filename = html ? decodeHtmlEntities(reference) : reference;
+    if (url) filename = decodeUrl(filename);
+    if (filename === '' || isRemoteReference(filename)) return undefined;
+
+    const renamed = map(filename);
+    if (renamed === filename) return undefined;
+    if (renamed === null) return null;
+    return html ? escapeAttribute(renamed) : renamed;
+  };
+
+  const rewriteCss = (css: string): string => css.replace(CSS_URL,
+    (match, double?: string, single?: string, entity?: string, bare?: string) => {
+      const renamed = rewrite(double ?? single ?? entity ?? bare ?? '', true);
+      if (renamed === undefined) return match;
+      if (renamed === null) return 'none';
+      if (double !== undefined) return `url("${renamed}")`;
+      if (entity !== undefined) return `url(&quot;${renamed}&quot;)`;
+      return html ? `url('${renamed}')` : `url("${renamed}")`;
+    }
+  );
+
+  if (!html) return rewriteCss(text);
+
+  return text
+    .replace(SOUND_TAG, (match, reference: string) => {
+      const renamed = rewrite(reference, false);
+      if (renamed === undefined) return match;
+      return renamed === null ? '' : `[sound:${renamed}]`;
+    })
+    .replace(MEDIA_TAG, tag => {
+      let removed = false;
+      const rewritten = tag.replace(MEDIA_ATTRIBUTE,
+        (match, prefix: string, double?: string, single?: string, bare?: string) => {
+          const renamed = rewrite(double ?? single ?? bare ?? '', true);
+          if (renamed === undefined) return match;
+          if (renamed === null) {
+            removed = true;
+            return match;
+          }
+          return single !== undefined ? `${prefix}'${renamed}'` : `${prefix}"${renamed}"`;
+        }
+      );
+      return removed ? '' : rewritten;
+    })
+    .replace(STYLE_ATTRIBUTE, (_match, prefix: string, value: string) => prefix + rewriteCss(value))
+    .replace(STYLE_ELEMENT, (_match, open: string, css: string, close: string) => open + rewriteCss(css) + close);
+}
+
+/**
+ * Extract local media filenames from HTML content, or from CSS
+ * Looks for [sound:], <img>, <audio>, <video>, <source>, <track>, <embed>,
+ * <object> and <script> sources, <link> hrefs, and CSS url() in style
+ * attributes and <style> elements.
+ * Entities and URL-encoding are decoded; remote and data: URLs are skipped.
+ */
+export function extractMediaFilenames(text: string, context: MediaContext = 'html'): string[] {
+  const filenames: string[] = [];
+  mapMediaReferences(text, context, filename => {
+    filenames.push(filename);
+    return filename;
+  });
   return filenames;
 }
 
+/**
+ * Replace the local media filenames referenced in HTML content, or in CSS
+ * `replace` receives decoded filenames, like extractMediaFilenames returns them,
+ * and may return null to remove the reference
+ */
+export function replaceMediaFilenames(
+  text: string,
+  replace: (filename: string) => string | null,
+  context: MediaContext = 'html'
+): string {
+  return mapMediaReferences(text, context, replace);
+}
+
+/**
+ * Named HTML entities decoded by stripHtml
+ */
+const HTML_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' '  // Anki decodes &nbsp; to a plain space
+};
+
+/**
+ * Decode named and numeric HTML entities
+ */
+export function decodeHtmlEntities(text: string): string {
+  return text.replace(/&(?:#(x[0-9a-f]+|\d+)|([a-z]+));/gi, (entity, numeric?: string, named?: string) => {
+    if (numeric !== undefined) {
+      const codePoint = numeric.startsWith('x') || numeric.startsWith('X')
+        ? parseInt(numeric.slice(1), 16)
+        : parseInt(numeric, 10);
+      return codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : entity;
+    }
+    return HTML_ENTITIES[(named ?? '').toLowerCase()] ?? entity;
+  });
+}
+
+/**
+ * Strip HTML tags, comments, scripts and styles, and decode entities
+ */
+export function stripHtml(html: string): string {
+  const text = html
+    .replace(/<!--.*?-->/gs, '')
+    .replace(/<(script|style)\b[^>]*>.*?<\/\1>/gis, '')
+    .replace(/<[^>]*>/g, '');
+  return decodeHtmlEntities(text);
+}
+
+/**
+ * Strip HTML but keep the filenames of media tags, like Anki's stripHTMLMedia
+ * <img src="cat.jpg"> becomes " cat.jpg " so notes differing only in media stay distinct
+ */
+export function stripHtmlMedia(html: string): string {
+  const withFilenames = html.replace(
+    /<\b(?:img|audio|video|object)\b(?:[^>"']|"[^"]*"|'[^']*')*?\b(?:src|data)\b=(?:"([^"]+?)"|'([^']+?)'|([^ >]+?))(?:[^>"']|"[^"]*"|'[^']*')*?>/gis,
+    (_tag, double?: string, single?: string, bare?: string) => ` ${double ?? single ?? bare ?? ''} `
+  );
+  return stripHtml(withFilenames);
+}
+
+/**
+ * Check whether a character is an ASCII control character
+ */
+export function isControlChar(char: string): boolean {
+  const code = char.charCodeAt(0);
+  return code < 0x20 || code === 0x7f;
+}
+
+/**
+ * Check whether text contains ASCII control characters
+ */
+export function hasControlChars(text: string): boolean {
+  return Array.from(text).some(isControlChar);
+}
+
+/**
+ * Remove ASCII control characters from text
+ */
+export function stripControlChars(text: string): string {
+  return Array.from(text).filter(char => !isControlChar(char)).join('');
+}
+
 /**
  * Escape SQL string value
  */
@@ -127,12 +343,44 @@ export function escapeSql(value: string): string {
   return value.replace(/'/g, "''");
 }
 
+/**
+ * Separator between the levels of a hierarchical tag, e.g. "lang::de::nouns"
+ */
+export const TAG_SEPARATOR = '::';
+
+/**
+ * Clean up a tag the way Anki does when it is typed in
+ * Spaces would split it into several tags, so inner whitespace becomes "_";
+ * control characters and empty hierarchy levels are dropped. Returns '' if
+ * nothing is left.
+ */
+export function normalizeTag(tag: string): string {
+  return stripControlChars(tag.normalize('NFC').trim().replace(/\s+/g, '_'))
+    .split(TAG_SEPARATOR)
+    .filter(part => part.length > 0)
+    .join(TAG_SEPARATOR);
+}
+
+/**
+ * Normalize tags, dropping empty ones and case-insensitive duplicates
+ * The first spelling of a duplicate is kept
+ */
+export function normalizeTags(tags: string[]): string[] {
+  const seen = new Map<string, string>();
+  for (const tag of tags) {
+    const name = normalizeTag(tag);
+    if (name !== '' && !seen.has(name.toLowerCase())) seen.set(name.toLowerCase(), name);
+  }
+  return Array.from(seen.values());
+}
+
 /**
  * Format tags for Anki (space-separated with leading/trailing spaces)
  */
 export function formatTags(tags: string[]): string {
-  if (tags.length === 0) return '';
-  return ` ${tags.join(' ')} `;
+  const names = normalizeTags(tags);
+  if (names.length === 0) return '';
+  return ` ${names.join(' ')} `;
 }
 
 /**
@@ -143,20 +391,18 @@ export function joinFields(fields: string[]): string {
 }
 
 /**
- * Calculate checksum for note fields (optional, can return 0)
- * Anki uses CRC32 of first field, but it's not strictly required
+ * Calculate checksum of the first field, used by Anki's duplicate check
+ * First 8 hex digits of the SHA-1 of the field, with HTML stripped
  */
-export function calculateChecksum(_firstField: string): number {
-  void _firstField;
-  // Simple implementation: return 0 (valid for new decks)
-  // Full implementation would use CRC32
-  return 0;
+export function calculateChecksum(firstField: string): number {
+  const hash = crypto.createHash('sha1').update(stripHtmlMedia(firstField), 'utf8').digest();
+  return hash.readUInt32BE(0);
 }
 
 /**
  * Generate default collection configuration
  */
-export function getDefaultCollectionConfig(): object {
+export function getDefaultCollectionConfig(): CollectionConfig {
   return {
     activeDecks: [1],
     curDeck: 1,
@@ -177,7 +423,7 @@ export function getDefaultCollectionConfig(): object {
 /**
  * Generate default deck configuration
  */
-export function getDefaultDeckConfig(): object {
+export function getDefaultDeckConfig(): Record<string, DeckConfig> {
   return {
     "1": {
       id: 1,
@@ -243,10 +489,11 @@ export function getDefaultLatexPost(): string {
  * This determines which cards are generated based on non-empty fields
  */
 export function generateRequirements(
-  templates: unknown[],
-  _fields: unknown[]
+  templates: AnkiTemplate[],
+  fields: AnkiField[]
 ): [number, string, number[]][] {
-  void _fields;
-  // Simple implementation: each template requires "any" field to be non-empty
-  return templates.map((_tmpl, idx) => [idx, "any", [0]]);
+  return templates.map((tmpl, idx) => {
+    const [kind, ords] = computeRequirements(parseTemplate(tmpl.qfmt), fields);
+    return [idx, kind, ords];
+  });
 }
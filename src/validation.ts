@@ -0,0 +1,466 @@
+/**
+ * Package input validation
+ * Checks models, decks, options groups and notes up front and reports every
+ * problem with the path of the offending value, e.g. `notes[42].fields[1]`
+ */
+
+import { getClozeFieldNames, getClozeNumbers } from './cloze.js';
+import { deckIdFromName, getAncestorDeckNames, normalizeDeckName } from './deck-tree.js';
+import { getNonEmptyFieldNames, parseTemplate, rendersWithFields, SPECIAL_FIELDS } from './template.js';
+import type { TemplateNode } from './template.js';
+import type { AnkiDeck, AnkiField, AnkiModel, AnkiNote, CardSchedule, DeckConfig } from './types.js';
+
+/**
+ * A problem found in the package input
+ */
+export interface ValidationIssue {
+  path: string;  // e.g. `models[0].tmpls[1].qfmt`
+  message: string;
+}
+
+/**
+ * What validatePackage() checks; same shape as the writer options
+ * Notes are only checked when given as an array
+ */
+export interface PackageDefinition {
+  model?: AnkiModel;
+  deck?: AnkiDeck;
+  models?: AnkiModel[];
+  decks?: AnkiDeck[];
+  deckConfigs?: DeckConfig[];
+  notes?: Iterable<AnkiNote> | AsyncIterable<AnkiNote>;
+  tags?: string[];
+}
+
+/**
+ * Characters Anki does not allow in field names, and prefixes that would
+ * turn a {{Field}} into a section tag
+ */
+const FIELD_NAME_CHARS = /[:{}"]/;
+const FIELD_NAME_PREFIX = /^[#/^]/;
+
+/**
+ * Validate a package definition without writing anything
+ * Returns every problem found; an empty list means the package is valid
+ */
+export function validatePackage(definition: PackageDefinition): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const models = withPaths(definition.model, 'model', definition.models, 'models');
+  const decks = withPaths(definition.deck, 'deck', definition.decks, 'decks');
+  const deckConfigs = withPaths(undefined, '', definition.deckConfigs, 'deckConfigs');
+
+  if (models.length === 0) issues.push({ path: 'models', message: 'at least one model is required' });
+  if (decks.length === 0) issues.push({ path: 'decks', message: 'at least one deck is required' });
+
+  const configIds = new Set([1]);
+  checkUniqueIds(deckConfigs, issues);
+  for (const [conf, path] of deckConfigs) {
+    if (isBlank(conf.name)) issues.push({ path: `${path}.name`, message: 'must not be empty' });
+    configIds.add(conf.id);
+  }
+
+  checkUniqueIds(decks, issues);
+  const deckNames = new Map<string, string>();
+  for (const [deck, path] of decks) {
+    const name = validateDeckName(deck.name, `${path}.name`, issues);
+    if (name !== undefined) {
+      const other = deckNames.get(name.toLowerCase());
+      if (other !== undefined) issues.push({ path: `${path}.name`, message: `"${name}" is also used by ${other}` });
+      deckNames.set(name.toLowerCase(), path);
+    }
+
+    const conf = deck.conf ?? 1;
+    if (!deck.dyn && !configIds.has(conf)) {
+      issues.push({ path: `${path}.conf`, message: `options group ${conf} is not in the package` });
+    }
+  }
+
+  const deckIds = collectDeckIds(decks.map(([deck]) => deck));
+  checkUniqueIds(models, issues);
+  for (const [model, path] of models) {
+    validateModel(model, path, deckIds, issues);
+  }
+
+  validateTags(definition.tags, 'tags', issues);
+
+  if (Array.isArray(definition.notes)) {
+    const validator = new NoteValidator(models.map(([model]) => model), decks.map(([deck]) => deck));
+    (definition.notes as AnkiNote[]).forEach((note, index) => issues.push(...validator.validate(note, index)));
+  }
+
+  return issues;
+}
+
+/**
+ * Checks notes one by one against the models and decks of a package
+ * Keeps the note ids it has seen to report duplicates
+ */
+export class NoteValidator {
+  private models = new Map<number, AnkiModel>();
+  private deckIds: Set<number>;
+  private deckCount: number;
+  private noteIds = new Map<number, number>();  // id -> index of the note that has it
+  private questions = new Map<number, TemplateNode[][] | null>();  // By model id; null if they do not parse
+  private clozeFields = new Map<number, AnkiField[]>();  // By model id
+
+  constructor(models: AnkiModel[], decks: AnkiDeck[]) {
+    for (const model of models) this.models.set(model.id, model);
+    this.deckIds = collectDeckIds(decks);
+    this.deckCount = decks.length;
+  }
+
+  /**
+   * Validate the note at `index` (used in paths)
+   */
+  validate(note: AnkiNote, index: number): ValidationIssue[] {
+    const issues: ValidationIssue[] = [];
+    const path = `notes[${index}]`;
+
+    if (note.id !== undefined) {
+      const other = this.noteIds.get(note.id);
+      if (!isPositiveInteger(note.id)) {
+        issues.push({ path: `${path}.id`, message: 'must be a positive integer' });
+      } else if (other !== undefined) {
+        issues.push({ path: `${path}.id`, message: `${note.id} is also used by notes[${other}]` });
+      } else {
+        this.noteIds.set(note.id, index);
+      }
+    }
+
+    if (note.guid !== undefined && isBlank(note.guid)) {
+      issues.push({ path: `${path}.guid`, message: 'must not be empty' });
+    }
+
+    const model = this.resolveModel(note, path, issues);
+    if (this.validateFields(note, model, path, issues) && model) {
+      this.validateCards(note, model, path, issues);
+    }
+    this.validateDecks(note, path, issues);
+
+    validateTags(note.tags, `${path}.tags`, issues);
+
+    validateSchedule(note.schedule, `${path}.schedule`, issues);
+    for (const [ord, schedule] of Object.entries(note.cards ?? {})) {
+      validateSchedule(schedule, `${path}.cards[${ord}]`, issues);
+    }
+
+    return issues;
+  }
+
+  private resolveModel(note: AnkiNote, path: string, issues: ValidationIssue[]): AnkiModel | undefined {
+    if (note.modelId === undefined) {
+      if (this.models.size === 1) return this.models.values().next().value;
+      issues.push({ path: `${path}.modelId`, message: `is required when the package has ${this.models.size} models` });
+      return undefined;
+    }
+
+    const model = this.models.get(note.modelId);
+    if (!model) issues.push({ path: `${path}.modelId`, message: `model ${note.modelId} is not in the package` });
+    return model;
+  }
+
+  /**
+   * Check the fields; returns whether they are usable for generating cards
+   */
+  private validateFields(note: AnkiNote, model: AnkiModel | undefined, path: string, issues: ValidationIssue[]): boolean {
+    if (!Array.isArray(note.fields)) {
+      issues.push({ path: `${path}.fields`, message: 'must be an array of strings' });
+      return false;
+    }
+    const count = issues.length;
+
+    if (model && note.fields.length !== model.flds.length) {
+      issues.push({
+        path: `${path}.fields`,
+        message: `has ${note.fields.length} fields, but model ${model.id} expects ${model.flds.length}`
+      });
+    }
+
+    note.fields.forEach((field, idx) => {
+      if (typeof field !== 'string') {
+        issues.push({ path: `${path}.fields[${idx}]`, message: 'must be a string' });
+      } else if (field.includes('\x1f')) {
+        issues.push({ path: `${path}.fields[${idx}]`, message: 'must not contain the field separator \\x1f' });
+      }
+    });
+    return issues.length === count;
+  }
+
+  /**
+   * Check that the note generates at least one card
+   */
+  private validateCards(note: AnkiNote, model: AnkiModel, path: string, issues: ValidationIssue[]): void {
+    if (model.type === 1) {
+      const clozeFields = this.clozeFieldsOf(model);
+      if (clozeFields.length > 0 && clozeFields.every(field => getClozeNumbers(note.fields[field.ord]).length === 0)) {
+        issues.push({
+          path: `${path}.fields[${clozeFields[0].ord}]`,
+          message: `has no cloze deletions, so the note would have no cards (cloze fields: ${clozeFields.map(field => field.name).join(', ')})`
+        });
+      }
+      return;
+    }
+
+    const questions = this.questionTemplates(model);
+    const nonEmpty = getNonEmptyFieldNames(model.flds, note.fields);
+    if (questions && !questions.some(nodes => rendersWithFields(nodes, nonEmpty))) {
+      issues.push({ path: `${path}.fields`, message: 'leave every card front empty, so the note would have no cards' });
+    }
+  }
+
+  /**
+   * Get the fields a cloze model's question renders with the cloze filter;
+   * none if its templates do not parse, as that is reported with the template
+   */
+  private clozeFieldsOf(model: AnkiModel): AnkiField[] {
+    let fields = this.clozeFields.get(model.id);
+    if (fields === undefined) {
+      let names: string[] = [];
+      try {
+        names = getClozeFieldNames(model);
+      } catch {
+        // Reported with the template
+      }
+      fields = model.flds.filter(field => names.includes(field.name));
+      this.clozeFields.set(model.id, fields);
+    }
+    return fields;
+  }
+
+  /**
+   * Parse a model's question templates once; null if one does not parse
+   */
+  private questionTemplates(model: AnkiModel): TemplateNode[][] | null {
+    let questions = this.questions.get(model.id);
+    if (questions === undefined) {
+      try {
+        questions = model.tmpls.map(tmpl => parseTemplate(tmpl.qfmt));
+      } catch {
+        questions = null;  // Parse errors are reported with the template
+      }
+      this.questions.set(model.id, questions);
+    }
+    return questions;
+  }
+
+  private validateDecks(note: AnkiNote, path: string, issues: ValidationIssue[]): void {
+    if (note.deckId === undefined) {
+      if (this.deckCount !== 1) {
+        issues.push({ path: `${path}.deckId`, message: `is required when the package has ${this.deckCount} decks` });
+      }
+    } else if (!this.deckIds.has(note.deckId)) {
+      issues.push({ path: `${path}.deckId`, message: `deck ${note.deckId} is not in the package` });
+    }
+
+    for (const [ord, deckId] of Object.entries(note.cardDecks ?? {})) {
+      if (!this.deckIds.has(deckId)) {
+        issues.push({ path: `${path}.cardDecks[${ord}]`, message: `deck ${deckId} is not in the package` });
+      }
+    }
+  }
+}
+
+/**
+ * Check a model's fields, templates and settings
+ */
+function validateModel(model: AnkiModel, path: string, deckIds: Set<number>, issues: ValidationIssue[]): void {
+  if (isBlank(model.name)) issues.push({ path: `${path}.name`, message: 'must not be empty' });
+
+  const fields = Array.isArray(model.flds) ? model.flds : [];
+  if (fields.length === 0) issues.push({ path: `${path}.flds`, message: 'must have at least one field' });
+
+  const fieldNames = new Set<string>();
+  fields.forEach((field, idx) => {
+    const fieldPath = `${path}.flds[${idx}]`;
+    if (field.ord !== idx) {
+      issues.push({ path: `${fieldPath}.ord`, message: `must be ${idx}: ords number fields from 0 in order` });
+    }
+    if (isBlank(field.name)) {
+      issues.push({ path: `${fieldPath}.name`, message: 'must not be empty' });
+    } else if (FIELD_NAME_CHARS.test(field.name) || FIELD_NAME_PREFIX.test(field.name)) {
+      issues.push({ path: `${fieldPath}.name`, message: `"${field.name}" must not contain : { } " or start with # / ^` });
+    } else if (fieldNames.has(field.name)) {
+      issues.push({ path: `${fieldPath}.name`, message: `"${field.name}" is used by another field` });
+    }
+    fieldNames.add(field.name);
+  });
+
+  const templates = Array.isArray(model.tmpls) ? model.tmpls : [];
+  if (templates.length === 0) issues.push({ path: `${path}.tmpls`, message: 'must have at least one template' });
+
+  const templateNames = new Set<string>();
+  templates.forEach((tmpl, idx) => {
+    const tmplPath = `${path}.tmpls[${idx}]`;
+    if (tmpl.ord !== idx) {
+      issues.push({ path: `${tmplPath}.ord`, message: `must be ${idx}: ords number templates from 0 in order` });
+    }
+    if (isBlank(tmpl.name)) {
+      issues.push({ path: `${tmplPath}.name`, message: 'must not be empty' });
+    } else if (templateNames.has(tmpl.name)) {
+      issues.push({ path: `${tmplPath}.name`, message: `"${tmpl.name}" is used by another template` });
+    }
+    templateNames.add(tmpl.name);
+
+    if (isBlank(tmpl.qfmt)) issues.push({ path: `${tmplPath}.qfmt`, message: 'must not be empty' });
+    for (const side of ['qfmt', 'afmt', 'bqfmt', 'bafmt'] as const) {
+      validateTemplateFields(tmpl[side], fieldNames, `${tmplPath}.${side}`, issues);
+    }
+
+    if (tmpl.did != null && !deckIds.has(tmpl.did)) {
+      issues.push({ path: `${tmplPath}.did`, message: `deck ${tmpl.did} is not in the package` });
+    }
+  });
+
+  if (model.type === 1 && templates.length > 0 && !hasClozeField(model)) {
+    issues.push({ path: `${path}.tmpls[0].qfmt`, message: 'cloze models need a {{cloze:Field}} replacement' });
+  }
+
+  const sortf = model.sortf ?? 0;
+  if (fields.length > 0 && (!Number.isInteger(sortf) || sortf < 0 || sortf >= fields.length)) {
+    issues.push({ path: `${path}.sortf`, message: `must be a field index below ${fields.length}` });
+  }
+
+  model.keyFields?.forEach((name, idx) => {
+    if (!fieldNames.has(name)) {
+      issues.push({ path: `${path}.keyFields[${idx}]`, message: `"${name}" is not one of the model's fields` });
+    }
+  });
+  if (model.keyFields?.length === 0) {
+    issues.push({ path: `${path}.keyFields`, message: 'must name at least one field' });
+  }
+}
+
+/**
+ * Check that a template parses and only uses fields the model has
+ */
+function validateTemplateFields(
+  template: string | undefined,
+  fieldNames: Set<string>,
+  path: string,
+  issues: ValidationIssue[]
+): void {
+  if (!template) return;
+
+  let nodes: TemplateNode[];
+  try {
+    nodes = parseTemplate(template);
+  } catch (error) {
+    issues.push({ path, message: error instanceof Error ? error.message : String(error) });
+    return;
+  }
+
+  const unknown = new Set<string>();
+  const visit = (list: TemplateNode[]): void => {
+    for (const node of list) {
+      if (node.type === 'text') continue;
+      if (node.key !== '' && !fieldNames.has(node.key) && !SPECIAL_FIELDS.includes(node.key)) {
+        unknown.add(node.key);
+      }
+      if (node.type === 'conditional') visit(node.children);
+    }
+  };
+  visit(nodes);
+
+  for (const name of unknown) {
+    issues.push({ path, message: `uses field "${name}", which the model does not have` });
+  }
+}
+
+/**
+ * Check whether a cloze model's question renders a field with the cloze filter
+ */
+function hasClozeField(model: AnkiModel): boolean {
+  try {
+    return getClozeFieldNames(model).length > 0;
+  } catch {
+    return true;  // Parse errors are reported with the template
+  }
+}
+
+/**
+ * Check a deck name, returning it normalized when it is valid
+ */
+function validateDeckName(name: string, path: string, issues: ValidationIssue[]): string | undefined {
+  if (isBlank(name)) {
+    issues.push({ path, message: 'must not be empty' });
+    return undefined;
+  }
+
+  try {
+    return normalizeDeckName(name);
+  } catch (error) {
+    issues.push({ path, message: error instanceof Error ? error.message : String(error) });
+    return undefined;
+  }
+}
+
+/**
+ * Check that tags are strings; whitespace and duplicates are cleaned up when
+ * the notes are written
+ */
+function validateTags(tags: string[] | undefined, path: string, issues: ValidationIssue[]): void {
+  (tags ?? []).forEach((tag, idx) => {
+    if (typeof tag !== 'string') issues.push({ path: `${path}[${idx}]`, message: 'must be a string' });
+  });
+}
+
+/**
+ * Check that studied cards say when they are due
+ */
+function validateSchedule(schedule: CardSchedule | undefined, path: string, issues: ValidationIssue[]): void {
+  if (!schedule || schedule.state === 'new') return;
+  if (schedule.due === undefined) {
+    issues.push({ path: `${path}.due`, message: `is required for ${schedule.state} cards` });
+  }
+}
+
+/**
+ * Check that items have positive, unique ids
+ */
+function checkUniqueIds(items: [{ id: number }, string][], issues: ValidationIssue[]): void {
+  const seen = new Map<number, string>();
+  for (const [item, path] of items) {
+    const other = seen.get(item.id);
+    if (!isPositiveInteger(item.id)) {
+      issues.push({ path: `${path}.id`, message: 'must be a positive integer' });
+    } else if (other !== undefined) {
+      issues.push({ path: `${path}.id`, message: `${item.id} is also used by ${other}` });
+    } else {
+      seen.set(item.id, path);
+    }
+  }
+}
+
+/**
+ * Ids of the given decks and of the parent decks the writer creates for them
+ */
+function collectDeckIds(decks: AnkiDeck[]): Set<number> {
+  const ids = new Set<number>();
+  for (const deck of decks) {
+    ids.add(deck.id);
+    try {
+      for (const parent of getAncestorDeckNames(deck.name)) ids.add(deckIdFromName(parent));
+    } catch {
+      // Invalid names are reported with the deck
+    }
+  }
+  return ids;
+}
+
+/**
+ * Pair the shorthand item and list items with their paths
+ */
+function withPaths<T>(single: T | undefined, singlePath: string, list: T[] | undefined, listPath: string): [T, string][] {
+  return [
+    ...(single ? [[single, singlePath] as [T, string]] : []),
+    ...(list ?? []).map((item, idx): [T, string] => [item, `${listPath}[${idx}]`])
+  ];
+}
+
+function isPositiveInteger(value: unknown): boolean {
+  return Number.isSafeInteger(value) && (value as number) > 0;
+}
+
+function isBlank(value: unknown): boolean {
+  return typeof value !== 'string' || value.trim() === '';
+}
@@ -4,8 +4,13 @@
  */
 
 import { Zip, ZipDeflate, ZipPassThrough } from 'fflate/browser';
+import crypto from 'node:crypto';
 import { once } from 'node:events';
-import { Readable } from 'node:stream';
+import { pipeline } from 'node:stream/promises';
+import zlib from 'node:zlib';
+import { encodeMediaEntries, encodePackageMetadata, PACKAGE_VERSION_LATEST } from './protobuf.js';
+import type { MediaEntryInfo } from './protobuf.js';
+import type { Clock, PackageFormat } from './types.js';
 
 
 /**
@@ -17,19 +22,63 @@ export interface MediaEntry {
   stream: NodeJS.ReadableStream | AsyncIterable<Uint8Array> | Iterable<Uint8Array>;
 }
 
+/**
+ * Size and SHA-1 of a media file as written (before zstd compression)
+ */
+export interface MediaFileInfo {
+  size: number;
+  sha1: Uint8Array;
+}
+
+/**
+ * Bytes that may wait in memory, in the output queue or in entries that
+ * fflate holds back until the entries before them finish
+ */
+const MAX_BUFFERED_BYTES = 1024 * 1024;
+
+/**
+ * Earliest time a ZIP entry can carry (DOS timestamps start in 1980)
+ */
+const MIN_ZIP_TIME = Date.UTC(1980, 0, 1);
+
+/**
+ * A ZIP entry and the bytes pushed to it that fflate still holds back
+ */
+interface EntryState {
+  entry: ZipDeflate | ZipPassThrough;
+  held: number;
+  done: boolean;
+}
+
 /**
  * Streaming ZIP writer for .apkg files
+ * In the latest format the collection and media files are zstd-compressed
+ *
+ * fflate writes entries one after another, so only the oldest unfinished
+ * entry reaches the output; data pushed to later entries is held in memory.
+ * addMediaFile() pauses reading while too much data waits, so slow outputs
+ * slow down the media streams instead of growing the buffers.
  */
 export class ApkgZipWriter {
   private zip: Zip;
   private finalized = false;
   private writeChain: Promise<void> = Promise.resolve();
+  private openEntries: EntryState[] = [];
+  private queuedBytes = 0;  // Emitted by fflate, not yet accepted by the output
+  private heldBytes = 0;  // Pushed to entries that are not being written yet
+  private capacityWaiters: (() => void)[] = [];
+  private written = 0;
+  private aborted = new AbortController();
   private zipDone: Promise<void>;
   private zipDoneResolve?: () => void;
   private zipDoneReject?: (err: Error) => void;
   private zipDoneSettled = false;
 
-  constructor(private output: NodeJS.WritableStream) {
+  constructor(
+    private output: NodeJS.WritableStream,
+    private format: PackageFormat = 'legacy',
+    private clock: Clock = Date.now
+  ) {
     this.zipDone = new Promise((resolve, reject) => {
       this.zipDoneResolve = resolve;
       this.zipDoneReject = reject;
@@ -56,76 +105,101 @@ export class ApkgZipWriter {
   }
 
   /**
-   * Add collection.anki2 database file
+   * Add the collection database file
+   * collection.anki2 in the legacy format, zstd-compressed collection.anki21b in the latest
    */
   addDatabase(data: Uint8Array): Promise<void> {
     if (this.finalized) throw new Error('Archive already finalized');
 
-    const entry = this.createEntry('collection.anki2');
-    entry.push(data, true);
+    if (this.format === 'latest') {
+      this.push(this.createStoredEntry('collection.anki21b'), zlib.zstdCompressSync(data), true);
+    } else {
+      this.push(this.createEntry('collection.anki2'), data, true);
+    }
+    return Promise.resolve();
+  }
+
+  /**
+   * Add the collection.anki2 stub that older Anki versions import from latest-format packages
+   */
+  addLegacyStub(data: Uint8Array): Promise<void> {
+    if (this.finalized) throw new Error('Archive already finalized');
+
+    this.push(this.createEntry('collection.anki2'), data, true);
     return Promise.resolve();
   }
 
   /**
    * Add a media file with numeric name (0, 1, 2, ...)
+   * Resolves with the size and SHA-1 of the uncompressed content.
+   * The entry is created synchronously, so entries appear in call order.
    */
-  addMediaFile(
+  async addMediaFile(
     index: number,
     stream: NodeJS.ReadableStream | AsyncIterable<Uint8Array> | Iterable<Uint8Array>
-  ): Promise<void> {
+  ): Promise<MediaFileInfo> {
     if (this.finalized) throw new Error('Archive already finalized');
 
-    return new Promise((resolve, reject) => {
-      const entry = this.createMediaEntry(index.toString());
-
-      const readableStream = stream instanceof Readable ? stream : Readable.from(stream);
-
-      const pump = async (): Promise<void> => {
-        try {
-          for await (const chunk of readableStream) {
-            if (typeof chunk === 'string') {
-              entry.push(Buffer.from(chunk), false);
-            } else {
-              entry.push(chunk as Uint8Array, false);
-            }
-          }
-          entry.push(new Uint8Array(0), true);
-          resolve();
-        } catch (err) {
-          reject(err instanceof Error ? err : new Error('Failed to read media stream'));
-        }
-      };
-
-      readableStream.once('error', (err) => {
-        reject(err);
-      });
-
-      void pump();
-    });
+    const entry = this.createStoredEntry(index.toString());
+    const hash = crypto.createHash('sha1');
+    let size = 0;
+
+    async function* measure(source: AsyncIterable<unknown>): AsyncIterable<Uint8Array> {
+      for await (const chunk of source) {
+        const data = typeof chunk === 'string' ? Buffer.from(chunk) : chunk as Uint8Array;
+        hash.update(data);
+        size += data.length;
+        yield data;
+      }
+    }
+
+    const write = async (source: AsyncIterable<unknown>): Promise<void> => {
+      for await (const chunk of source) {
+        this.push(entry, chunk as Uint8Array, false);
+        await this.waitForCapacity(entry);
+      }
+      this.push(entry, new Uint8Array(0), true);
+    };
+
+    const source = stream as AsyncIterable<unknown>;
+    if (this.format === 'latest') {
+      await pipeline(source, measure, zlib.createZstdCompress(), write);
+    } else {
+      await pipeline(source, measure, write);
+    }
+
+    return { size, sha1: hash.digest() };
   }
 
   /**
    * Add multiple media files asynchronously
    * Processes them in parallel for performance
    */
-  async addMediaFiles(entries: MediaEntry[]): Promise<void> {
+  async addMediaFiles(entries: MediaEntry[]): Promise<MediaFileInfo[]> {
     if (this.finalized) throw new Error('Archive already finalized');
 
     // Process media files in parallel to keep throughput
     const promises = entries.map((entry) => this.addMediaFile(entry.index, entry.stream));
 
-    await Promise.all(promises);
+    return Promise.all(promises);
   }
 
   /**
-   * Add media manifest (media.json)
+   * Add media manifest
+   * JSON ({"0": "file.mp3"}) in the legacy format, zstd-compressed protobuf in the latest
    */
-  addMediaManifest(manifest: Record<string, string>): Promise<void> {
+  addMediaManifest(entries: MediaEntryInfo[]): Promise<void> {
     if (this.finalized) throw new Error('Archive already finalized');
 
-    const json = JSON.stringify(manifest);
-    const entry = this.createEntry('media');
-    entry.push(Buffer.from(json), true);
+    if (this.format === 'latest') {
+      this.push(this.createStoredEntry('media'), zlib.zstdCompressSync(encodeMediaEntries(entries)), true);
+    } else {
+      const manifest: Record<string, string> = {};
+      for (const { index, filename } of entries) {
+        manifest[index.toString()] = filename;
+      }
+      this.push(this.createEntry('media'), Buffer.from(JSON.stringify(manifest)), true);
+    }
     return Promise.resolve();
   }
 
@@ -135,6 +209,10 @@ export class ApkgZipWriter {
   async finalize(): Promise<void> {
     if (this.finalized) throw new Error('Archive already finalized');
 
+    if (this.format === 'latest') {
+      this.push(this.createStoredEntry('meta'), encodePackageMetadata(PACKAGE_VERSION_LATEST), true);
+    }
+
     this.finalized = true;
 
     this.zip.end();
@@ -146,6 +224,26 @@ export class ApkgZipWriter {
     await once(this.output, 'finish');
   }
 
+  /**
+   * Tear down the archive: stop writing to the output and fail pending calls
+   * The output stream itself is left to the caller
+   */
+  abort(error: Error): void {
+    if (this.aborted.signal.aborted) return;
+    this.finalized = true;
+    this.aborted.abort(error);
+    this.zip.terminate();
+    this.zipDone.catch(() => undefined);  // finalize() will not be called to observe it
+    this.rejectZipDone(error);
+  }
+
+  /**
+   * Number of bytes written to the output so far
+   */
+  get bytesWritten(): number {
+    return this.written;
+  }
+
   /**
    * Check if archive is finalized
    */
@@ -153,26 +251,110 @@ export class ApkgZipWriter {
     return this.finalized;
   }
 
-  private createEntry(name: string): ZipDeflate {
+  private createEntry(name: string): EntryState {
     const entry = new ZipDeflate(name, { level: 9 });
-    this.zip.add(entry);
-    return entry;
+    entry.mtime = this.entryTime();
+    return this.addEntry(entry);
   }
 
-  private createMediaEntry(name: string): ZipPassThrough {
+  private createStoredEntry(name: string): EntryState {
     const entry = new ZipPassThrough(name);
+    entry.mtime = this.entryTime();
+    return this.addEntry(entry);
+  }
+
+  /**
+   * Modification time for a new entry
+   * ZIP stores local time fields; shifting by the time zone offset stores the
+   * UTC ones, so the archive is the same wherever it is written
+   */
+  private entryTime(): Date {
+    const time = Math.max(this.clock(), MIN_ZIP_TIME);
+    return new Date(time + new Date(time).getTimezoneOffset() * 60_000);
+  }
+
+  private addEntry(entry: ZipDeflate | ZipPassThrough): EntryState {
+    const state: EntryState = { entry, held: 0, done: false };
+    this.openEntries.push(state);
     this.zip.add(entry);
-    return entry;
+    return state;
+  }
+
+  /**
+   * Push data to an entry, tracking what fflate holds back
+   */
+  private push(state: EntryState, data: Uint8Array, final: boolean): void {
+    const writing = this.openEntries[0] === state;
+    state.entry.push(data, final);
+
+    if (!writing) {
+      state.held += data.length;
+      this.heldBytes += data.length;
+    }
+
+    if (final) {
+      state.done = true;
+      this.releaseFinishedEntries();
+    }
+  }
+
+  /**
+   * Drop finished entries from the front; fflate has now flushed the data
+   * it held for the entries that moved up
+   */
+  private releaseFinishedEntries(): void {
+    while (this.openEntries.length > 0 && this.openEntries[0].done) {
+      this.release(this.openEntries.shift());
+    }
+    this.release(this.openEntries[0]);
+    this.notifyCapacity();
+  }
+
+  private release(state: EntryState | undefined): void {
+    if (!state) return;
+    this.heldBytes -= state.held;
+    state.held = 0;
+  }
+
+  /**
+   * Wait until there is room for more data in an entry
+   * The entry being written only waits for the output; later entries also
+   * count the data held back for them
+   */
+  private async waitForCapacity(state: EntryState): Promise<void> {
+    const hasCapacity = () => this.openEntries[0] === state
+      ? this.queuedBytes < MAX_BUFFERED_BYTES
+      : this.queuedBytes + this.heldBytes < MAX_BUFFERED_BYTES;
+
+    while (!hasCapacity() && !this.zipDoneSettled) {
+      await new Promise<void>(resolve => this.capacityWaiters.push(resolve));
+    }
+  }
+
+  private notifyCapacity(): void {
+    const waiters = this.capacityWaiters;
+    this.capacityWaiters = [];
+    for (const resolve of waiters) resolve();
   }
 
   private enqueueWrite(data: Uint8Array): void {
+    this.queuedBytes += data.length;
     this.writeChain = this.writeChain.then(() => this.writeChunk(data));
   }
 
   private async writeChunk(data: Uint8Array): Promise<void> {
+    if (this.aborted.signal.aborted) return;
     if (!this.output.write(data)) {
-      await once(this.output, 'drain');
+      try {
+        await once(this.output, 'drain', { signal: this.aborted.signal });
+      } catch (err) {
+        if (this.aborted.signal.aborted) return;
+        throw err;
+      }
     }
+    this.queuedBytes -= data.length;
+    this.written += data.length;
+    this.notifyCapacity();
   }
 
   private resolveZipDone(): void {
@@ -185,6 +367,7 @@ export class ApkgZipWriter {
     if (this.zipDoneSettled) return;
     this.zipDoneSettled = true;
     this.zipDoneReject?.(err);
+    this.notifyCapacity();
   }
 }
 
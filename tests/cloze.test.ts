@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+
+import { getClozeFieldNames, getClozeNumbers, parseCloze } from '../src/cloze.js';
+import type { AnkiModel } from '../src/types.js';
+
+describe('cloze', () => {
+  it('parses deletions with hints', () => {
+    expect(parseCloze('The {{c1::capital::city}} of {{c2::France}}.')).toEqual([
+      'The ',
+      { ord: 1, children: ['capital'], hint: 'city' },
+      ' of ',
+      { ord: 2, children: ['France'] },
+      '.'
+    ]);
+  });
+
+  it('parses nested deletions', () => {
+    expect(parseCloze('{{c1::outer {{c2::inner}} text}}')).toEqual([
+      { ord: 1, children: ['outer ', { ord: 2, children: ['inner'] }, ' text'] }
+    ]);
+  });
+
+  it('keeps unmatched markers as plain text', () => {
+    expect(parseCloze('a }} b {{c1::open')).toEqual(['a }} b {{c1::open']);
+    expect(parseCloze('{{c0::zero}}')).toEqual(['{{c0::zero}}']);
+  });
+
+  it('collects distinct cloze numbers', () => {
+    expect(getClozeNumbers('{{c3::a}} {{c1::b {{c3::c}}}} {{c1::d::hint}}')).toEqual([1, 3]);
+    expect(getClozeNumbers('no deletions {{c1::unterminated')).toEqual([]);
+  });
+
+  it('finds fields rendered with the cloze filter', () => {
+    const model: AnkiModel = {
+      id: 1,
+      name: 'Cloze',
+      type: 1,
+      flds: [
+        { name: 'Text', ord: 0 },
+        { name: 'Extra', ord: 1 }
+      ],
+      tmpls: [{ name: 'Cloze', ord: 0, qfmt: '{{cloze:Text}}{{#Extra}}{{Extra}}{{/Extra}}', afmt: '{{cloze:Text}}' }],
+      css: ''
+    };
+
+    expect(getClozeFieldNames(model)).toEqual(['Text']);
+  });
+});
@@ -0,0 +1,253 @@
+import initSqlJs from 'sql.js';
+import { describe, expect, it } from 'vitest';
+
+import { AnkiDatabase } from '../src/database.js';
+import { generateCardId, generateGuid } from '../src/utils.js';
+import type { AnkiModel, AnkiNote } from '../src/types.js';
+
+const model: AnkiModel = {
+  id: 1001,
+  name: 'Basic (and reversed card)',
+  flds: [
+    { name: 'Front', ord: 0 },
+    { name: 'Back', ord: 1 }
+  ],
+  tmpls: [
+    { name: 'Card 1', ord: 0, qfmt: '{{Front}}', afmt: '{{Back}}' },
+    { name: 'Card 2', ord: 1, qfmt: '{{Back}}', afmt: '{{Front}}' }
+  ],
+  css: ''
+};
+
+async function createDatabase(): Promise<AnkiDatabase> {
+  const db = new AnkiDatabase();
+  await db.init();
+  db.addModel(model);
+  db.addDeck({ id: 2001, name: 'Deck' });
+  return db;
+}
+
+async function countRows(db: AnkiDatabase): Promise<unknown[]> {
+  const SQL = await initSqlJs();
+  const exported = new SQL.Database(db.export());
+  const [counts] = exported.exec('SELECT (SELECT count(*) FROM notes), (SELECT count(*) FROM cards)');
+  exported.close();
+  return counts.values[0];
+}
+
+describe('AnkiDatabase', () => {
+  it('adds notes in bulk', async () => {
+    const db = await createDatabase();
+    const noteIds = db.addNotes([
+      { fields: ['one', 'uno'], modelId: model.id, deckId: 2001 },
+      { fields: ['two', 'dos'], modelId: model.id, deckId: 2001 }
+    ]);
+
+    expect(noteIds).toHaveLength(2);
+    expect(await countRows(db)).toEqual([2, 4]);
+    db.close();
+  });
+
+  it('rolls back the whole batch when a note fails', async () => {
+    const db = await createDatabase();
+
+    expect(() => db.addNotes([
+      { fields: ['one', 'uno'], modelId: model.id, deckId: 2001 },
+      { fields: ['broken'], modelId: model.id, deckId: 2001 }
+    ])).toThrow('Note has 1 fields, but model expects 2');
+
+    expect(await countRows(db)).toEqual([0, 0]);
+    db.close();
+  });
+
+  it('keeps note ids, card ids and key field GUIDs across exports', async () => {
+    const SQL = await initSqlJs();
+    const exportIds = async (back: string) => {
+      const db = new AnkiDatabase();
+      await db.init();
+      db.addModel({ ...model, keyFields: ['Front'] });
+      db.addDeck({ id: 2001, name: 'Deck' });
+      db.addNote({ id: 1234, fields: ['Hund', back] }, model.id, 2001);
+
+      const exported = new SQL.Database(db.export());
+      db.close();
+      const [notes] = exported.exec('SELECT id, guid FROM notes');
+      const [cards] = exported.exec('SELECT id, ord FROM cards ORDER BY ord');
+      const [col] = exported.exec('SELECT models FROM col');
+      exported.close();
+      return { notes: notes.values, cards: cards.values, models: col.values[0][0] as string };
+    };
+
+    const first = await exportIds('dgo');
+    const fixed = await exportIds('dog');
+
+    expect(fixed.notes).toEqual(first.notes);
+    expect(fixed.notes).toEqual([[1234, generateGuid('Hund')]]);
+    expect(fixed.cards).toEqual([[generateCardId(1234, 0), 0], [generateCardId(1234, 1), 1]]);
+    expect(fixed.models).not.toContain('keyFields');
+  });
+
+  it('spaces generated note ids by their templates and rejects given ids whose card ids are taken', async () => {
+    const db = await createDatabase();
+    const first = db.addNote({ fields: ['one', 'uno'] }, model.id, 2001);
+    const second = db.addNote({ fields: ['two', ''] }, model.id, 2001);
+    db.addNote({ id: 1000, fields: ['three', 'tres'] }, model.id, 2001);
+    expect(() => db.addNote({ id: 1001, fields: ['four', 'cuatro'] }, model.id, 2001)).toThrow(
+      'Card 0 of note 1001 would get id 1001, which another note\'s card has; note ids must be at least their number of templates apart'
+    );
+    db.addNote({ id: 1002, fields: ['four', 'cuatro'] }, model.id, 2001);
+
+    const SQL = await initSqlJs();
+    const exported = new SQL.Database(db.export());
+    db.close();
+    const [cards] = exported.exec('SELECT nid, ord, id FROM cards ORDER BY nid, ord');
+    exported.close();
+
+    // The second note leaves room for the card its empty Back would create
+    expect(second).toBe(first + 2);
+    expect(cards.values).toEqual([
+      [1000, 0, 1000], [1000, 1, 1001],
+      [1002, 0, 1002], [1002, 1, 1003],
+      [first, 0, first], [first, 1, first + 1],
+      [second, 0, second]
+    ]);
+  });
+
+  it('rejects duplicate note ids and unknown key fields', async () => {
+    const db = await createDatabase();
+    db.addNote({ id: 1234, fields: ['one', 'uno'] }, model.id, 2001);
+
+    expect(() => db.addNote({ id: 1234, fields: ['two', 'dos'] }, model.id, 2001)).toThrow('Duplicate note id 1234');
+    expect(() => db.addModel({ ...model, id: 1002, keyFields: ['Word'] }))
+      .toThrow('Key field "Word" of model 1002 is not one of its fields');
+    db.close();
+  });
+
+  it('stores scheduling state relative to the collection creation time', async () => {
+    const day = 86_400_000;
+    const created = Date.UTC(2024, 0, 10, 12);
+    const db = new AnkiDatabase('legacy', () => created);
+    await db.init();
+    db.addModel(model);
+    db.addDeck({ id: 2001, name: 'Deck' });
+
+    const reviewed = new Date(created - 5 * day);
+    db.addNote({
+      id: 1234,
+      fields: ['Hund', 'dog'],
+      schedule: {
+        state: 'review',
+        due: created + 3 * day,
+        interval: 8,
+        ease: 2300,
+        reps: 4,
+        lapses: 1,
+        reviews: [
+          { time: reviewed, button: 3, interval: 8, lastInterval: 3, ease: 2300, durationMs: 4200 },
+          { time: reviewed, button: 1, interval: -600, type: 'relearn' }
+        ]
+      },
+      cards: { 1: { state: 'learning', due: created + 60_000, suspended: true } }
+    }, model.id, 2001);
+
+    const SQL = await initSqlJs();
+    const exported = new SQL.Database(db.export());
+    db.close();
+
+    const [cards] = exported.exec('SELECT ord, type, queue, due, ivl, factor, reps, lapses, left FROM cards ORDER BY ord');
+    expect(cards.values).toEqual([
+      [0, 2, 2, 3, 8, 2300, 4, 1, 0],
+      [1, 1, -1, (created + 60_000) / 1000, 0, 2500, 0, 0, 1001]
+    ]);
+
+    const [revlog] = exported.exec('SELECT id, cid, ease, ivl, lastIvl, factor, time, type FROM revlog ORDER BY id');
+    expect(revlog.values).toEqual([
+      [reviewed.getTime(), generateCardId(1234, 0), 3, 8, 3, 2300, 4200, 1],
+      [reviewed.getTime() + 1, generateCardId(1234, 0), 1, -600, 0, 0, 0, 2]
+    ]);
+    exported.close();
+  });
+
+  it('counts review days from the 4 am rollover', async () => {
+    const created = Date.UTC(2024, 0, 10, 12);
+    const db = new AnkiDatabase('legacy', () => created);
+    await db.init();
+    db.addModel(model);
+    db.addDeck({ id: 2001, name: 'Deck' });
+
+    // Due at 8 am is on that day; due at 2 am still belongs to the day before
+    db.addNote({
+      id: 1234,
+      fields: ['Hund', 'dog'],
+      cards: {
+        0: { state: 'review', due: Date.UTC(2024, 0, 13, 8) },
+        1: { state: 'review', due: Date.UTC(2024, 0, 13, 2) }
+      }
+    }, model.id, 2001);
+
+    const SQL = await initSqlJs();
+    const exported = new SQL.Database(db.export());
+    db.close();
+
+    expect(exported.exec('SELECT crt FROM col')[0].values).toEqual([[Date.UTC(2024, 0, 10, 4) / 1000]]);
+    expect(exported.exec('SELECT ord, due FROM cards ORDER BY ord')[0].values).toEqual([[0, 3], [1, 2]]);
+    exported.close();
+  });
+
+  it('writes note-level reviews for one card only', async () => {
+    const db = await createDatabase();
+    const reviewed = Date.UTC(2024, 0, 5);
+    db.addNote({
+      id: 1234,
+      fields: ['Hund', 'dog'],
+      schedule: {
+        state: 'review',
+        due: Date.UTC(2024, 0, 20),
+        reviews: [
+          { time: reviewed, button: 3, interval: 4 },
+          { time: reviewed + 60_000, button: 4, interval: 10 }
+        ]
+      }
+    }, model.id, 2001);
+
+    const SQL = await initSqlJs();
+    const exported = new SQL.Database(db.export());
+    db.close();
+
+    const [cards] = exported.exec('SELECT ord, type FROM cards ORDER BY ord');
+    expect(cards.values).toEqual([[0, 2], [1, 2]]);
+    const [revlog] = exported.exec('SELECT id, cid FROM revlog ORDER BY id');
+    expect(revlog.values).toEqual([
+      [reviewed, generateCardId(1234, 0)],
+      [reviewed + 60_000, generateCardId(1234, 0)]
+    ]);
+    exported.close();
+  });
+
+  it('rejects studied cards without a due date', async () => {
+    const db = await createDatabase();
+    expect(() => db.addNote({ fields: ['one', 'uno'], schedule: { state: 'review' } }, model.id, 2001))
+      .toThrow('Card in state "review" has no due date');
+    db.close();
+  });
+
+  it('inserts 100k notes quickly', async () => {
+    const db = await createDatabase();
+    const total = 100_000;
+
+    function* generateNotes(): Iterable<AnkiNote> {
+      for (let i = 0; i < total; i++) {
+        yield { fields: [`front ${i}`, `back ${i}`], modelId: model.id, deckId: 2001 };
+      }
+    }
+
+    const started = performance.now();
+    db.addNotes(generateNotes());
+    const seconds = (performance.now() - started) / 1000;
+
+    expect(await countRows(db)).toEqual([total, total * 2]);
+    // Generous floor so slow CI machines still pass
+    expect(total / seconds).toBeGreaterThan(5_000);
+    db.close();
+  }, 120_000);
+});
@@ -0,0 +1,88 @@
+import initSqlJs from 'sql.js';
+import { describe, expect, it } from 'vitest';
+
+import { AnkiDatabase } from '../src/database.js';
+import { createDeckTree, deckIdFromName, getAncestorDeckNames, parseDeckName } from '../src/deck-tree.js';
+import type { AnkiDeck } from '../src/types.js';
+
+async function collectionDecks(decks: AnkiDeck[]): Promise<AnkiDeck[]> {
+  const db = new AnkiDatabase();
+  await db.init();
+  try {
+    for (const deck of decks) db.addDeck(deck);
+
+    const SQL = await initSqlJs();
+    const exported = new SQL.Database(db.export());
+    const [col] = exported.exec('SELECT decks FROM col');
+    exported.close();
+    const decksById = JSON.parse(col.values[0][0] as string) as Record<string, AnkiDeck>;
+    return Object.values(decksById).sort((a, b) => a.name.localeCompare(b.name));
+  } finally {
+    db.close();
+  }
+}
+
+describe('deck tree', () => {
+  it('parses and trims deck path components', () => {
+    expect(parseDeckName('Japanese:: N5 ::Verbs')).toEqual(['Japanese', 'N5', 'Verbs']);
+    expect(getAncestorDeckNames('Japanese::N5::Verbs')).toEqual(['Japanese', 'Japanese::N5']);
+  });
+
+  it('rejects malformed deck names', () => {
+    expect(() => parseDeckName('')).toThrow('deck path components must not be empty');
+    expect(() => parseDeckName('Japanese::::Verbs')).toThrow('deck path components must not be empty');
+    expect(() => parseDeckName('Japanese::')).toThrow('deck path components must not be empty');
+    expect(() => parseDeckName('Bad\x1fName')).toThrow('control characters are not allowed');
+  });
+
+  it('derives stable deck ids from names', () => {
+    const id = deckIdFromName('Japanese::N5');
+
+    expect(deckIdFromName('Japanese :: N5')).toBe(id);
+    expect(id).toBeGreaterThanOrEqual(2 ** 30);
+    expect(id).toBeLessThan(2 ** 31);
+  });
+
+  it('creates a deck tree with per-level options', () => {
+    const tree = createDeckTree('Japanese::N5', [{ desc: 'All Japanese' }, { conf: 2 }]);
+
+    expect(tree).toEqual([
+      { id: deckIdFromName('Japanese'), name: 'Japanese', desc: 'All Japanese' },
+      { id: deckIdFromName('Japanese::N5'), name: 'Japanese::N5', conf: 2 }
+    ]);
+  });
+
+  it('creates missing parent decks in the collection', async () => {
+    const decks = await collectionDecks([{ id: 42, name: 'Japanese::N5::Verbs' }]);
+
+    expect(decks.map(deck => [deck.id, deck.name])).toEqual([
+      [deckIdFromName('Japanese'), 'Japanese'],
+      [deckIdFromName('Japanese::N5'), 'Japanese::N5'],
+      [42, 'Japanese::N5::Verbs']
+    ]);
+  });
+
+  it('lets an explicit parent deck replace the auto-created one', async () => {
+    const decks = await collectionDecks([
+      { id: 42, name: 'Japanese::N5' },
+      { id: 7, name: 'Japanese', desc: 'All Japanese' }
+    ]);
+
+    expect(decks.map(deck => [deck.id, deck.name, deck.desc])).toEqual([
+      [7, 'Japanese', 'All Japanese'],
+      [42, 'Japanese::N5', '']
+    ]);
+  });
+
+  it('rejects conflicting deck definitions', async () => {
+    await expect(collectionDecks([
+      { id: 1, name: 'Japanese' },
+      { id: 2, name: 'japanese' }
+    ])).rejects.toThrow('Deck "japanese" is defined twice, with ids 1 and 2');
+
+    await expect(collectionDecks([
+      { id: 1, name: 'Japanese' },
+      { id: 1, name: 'German' }
+    ])).rejects.toThrow('Deck id 1 is used by both "Japanese" and "German"');
+  });
+});
@@ -0,0 +1,902 @@
+import { createHash } from 'node:crypto';
+import { Readable, Writable } from 'node:stream';
+import { setTimeout as sleep } from 'node:timers/promises';
+import { zstdDecompressSync } from 'node:zlib';
+import { unzipSync } from 'fflate';
+import initSqlJs from 'sql.js';
+import { describe, expect, it } from 'vitest';
+
+import { AnkiPackageWriter, createAnkiPackage, PackageAbortedError } from '../src/index.js';
+import { encodeMediaEntries, encodePackageMetadata, PACKAGE_VERSION_LATEST } from '../src/protobuf.js';
+import { calculateChecksum, generateCardId } from '../src/utils.js';
+import type {
+  AnkiDeck,
+  AnkiModel,
+  AnkiNote,
+  CreatePackageOptions,
+  DeckConfig,
+  PackageFormat,
+  ProgressEvent
+} from '../src/index.js';
+
+const basicModel: AnkiModel = {
+  id: 1001,
+  name: 'Basic',
+  flds: [
+    { name: 'Front', ord: 0 },
+    { name: 'Back', ord: 1 }
+  ],
+  tmpls: [{ name: 'Card 1', ord: 0, qfmt: '{{Front}}', afmt: '{{FrontSide}}<hr id=answer>{{Back}}' }],
+  css: ''
+};
+
+const wordModel: AnkiModel = {
+  id: 1002,
+  name: 'Word',
+  flds: [
+    { name: 'Word', ord: 0 },
+    { name: 'Meaning', ord: 1 },
+    { name: 'Example', ord: 2 }
+  ],
+  tmpls: [{ name: 'Card 1', ord: 0, qfmt: '{{Word}}', afmt: '{{Meaning}}' }],
+  css: ''
+};
+
+const clozeModel: AnkiModel = {
+  id: 1003,
+  name: 'Cloze',
+  type: 1,
+  flds: [
+    { name: 'Text', ord: 0 },
+    { name: 'Extra', ord: 1 }
+  ],
+  tmpls: [{ name: 'Cloze', ord: 0, qfmt: '{{cloze:Text}}', afmt: '{{cloze:Text}}<br>{{Extra}}' }],
+  css: ''
+};
+
+const optionalReverseModel: AnkiModel = {
+  id: 1004,
+  name: 'Basic (optional reversed card)',
+  flds: [
+    { name: 'Front', ord: 0 },
+    { name: 'Back', ord: 1 },
+    { name: 'Add Reverse', ord: 2 }
+  ],
+  tmpls: [
+    { name: 'Card 1', ord: 0, qfmt: '{{Front}}', afmt: '{{Back}}' },
+    { name: 'Card 2', ord: 1, qfmt: '{{#Add Reverse}}{{Back}}{{/Add Reverse}}', afmt: '{{Front}}' }
+  ],
+  css: ''
+};
+
+const vocabDeck: AnkiDeck = { id: 2001, name: 'Vocab' };
+const grammarDeck: AnkiDeck = { id: 2002, name: 'Grammar' };
+
+function memoryOutput() {
+  const chunks: Buffer[] = [];
+  const output = new Writable({
+    write(chunk: Buffer, _encoding, callback) {
+      chunks.push(chunk);
+      callback();
+    }
+  });
+  return { output, read: () => Buffer.concat(chunks) };
+}
+
+async function openPackage(data: Buffer) {
+  const files = unzipSync(data);
+  const SQL = await initSqlJs();
+  return { files, db: new SQL.Database(files['collection.anki2']) };
+}
+
+async function buildPackage(options: Omit<CreatePackageOptions, 'output' | 'mediaResolver'>) {
+  const { output, read } = memoryOutput();
+
+  await createAnkiPackage({
+    ...options,
+    mediaResolver: () => Promise.reject(new Error('No media expected')),
+    output
+  });
+
+  return openPackage(read());
+}
+
+describe('createAnkiPackage', () => {
+  it('writes a single model and deck package', async () => {
+    const { db } = await buildPackage({
+      model: basicModel,
+      deck: vocabDeck,
+      notes: [{ fields: ['Hello', 'World'] }]
+    });
+
+    const [cards] = db.exec('SELECT did, ord FROM cards');
+    expect(cards.values).toEqual([[vocabDeck.id, 0]]);
+    db.close();
+  });
+
+  it('places notes into their own models and decks', async () => {
+    const { db } = await buildPackage({
+      models: [basicModel, wordModel],
+      decks: [vocabDeck, grammarDeck],
+      notes: [
+        { fields: ['Hello', 'World'], modelId: basicModel.id, deckId: vocabDeck.id },
+        { fields: ['gehen', 'to go', 'Ich gehe'], modelId: wordModel.id, deckId: grammarDeck.id }
+      ]
+    });
+
+    const [rows] = db.exec('SELECT notes.mid, cards.did FROM notes JOIN cards ON cards.nid = notes.id ORDER BY notes.id');
+    expect(rows.values).toEqual([
+      [basicModel.id, vocabDeck.id],
+      [wordModel.id, grammarDeck.id]
+    ]);
+
+    const [col] = db.exec('SELECT models, decks FROM col');
+    const [models, decks] = col.values[0] as [string, string];
+    expect(Object.keys(JSON.parse(models) as object)).toEqual(['1001', '1002']);
+    expect(Object.keys(JSON.parse(decks) as object)).toEqual(['2001', '2002']);
+    db.close();
+  });
+
+  it('normalizes note tags, adds package tags and registers them', async () => {
+    const { db } = await buildPackage({
+      model: basicModel,
+      deck: vocabDeck,
+      notes: [
+        { fields: ['Hund', 'dog'], tags: ['Lang::DE', 'noun', 'NOUN', ' two words '] },
+        { fields: ['Katze', 'cat'], tags: ['lang::de::Animals', ''] }
+      ],
+      tags: ['source::wiktionary']
+    });
+
+    const [notes] = db.exec('SELECT tags FROM notes ORDER BY id');
+    expect(notes.values).toEqual([
+      [' Lang::DE noun two_words source::wiktionary '],
+      [' Lang::DE::Animals source::wiktionary ']
+    ]);
+
+    const [col] = db.exec('SELECT tags FROM col');
+    expect(Object.keys(JSON.parse(col.values[0][0] as string) as object)).toEqual([
+      'Lang',
+      'Lang::DE',
+      'noun',
+      'two_words',
+      'source',
+      'source::wiktionary',
+      'Lang::DE::Animals'
+    ]);
+    db.close();
+  });
+
+  it('places cards by template deck and per-note overrides', async () => {
+    const model: AnkiModel = {
+      ...optionalReverseModel,
+      tmpls: optionalReverseModel.tmpls.map(tmpl => tmpl.ord === 1 ? { ...tmpl, did: grammarDeck.id } : tmpl)
+    };
+    const speakingDeck: AnkiDeck = { id: 2003, name: 'Speaking' };
+    const { db } = await buildPackage({
+      model,
+      decks: [vocabDeck, grammarDeck, speakingDeck],
+      notes: [
+        { fields: ['Hund', 'dog', 'y'], deckId: vocabDeck.id },
+        { fields: ['Katze', 'cat', 'y'], deckId: vocabDeck.id, cardDecks: { 0: speakingDeck.id, 1: vocabDeck.id } }
+      ]
+    });
+
+    const [rows] = db.exec('SELECT notes.sfld, cards.ord, cards.did FROM cards JOIN notes ON notes.id = cards.nid ORDER BY notes.id, cards.ord');
+    expect(rows.values).toEqual([
+      ['Hund', 0, vocabDeck.id],
+      ['Hund', 1, grammarDeck.id],
+      ['Katze', 0, speakingDeck.id],
+      ['Katze', 1, vocabDeck.id]
+    ]);
+    db.close();
+
+    await expect(buildPackage({ model, deck: vocabDeck, notes: [] }))
+      .rejects.toThrow('model.tmpls[1].did: deck 2002 is not in the package');
+    await expect(buildPackage({
+      model: optionalReverseModel,
+      deck: vocabDeck,
+      notes: [{ fields: ['Hund', 'dog', ''], cardDecks: { 0: 2009 } }]
+    })).rejects.toThrow('notes[0].cardDecks[0]: deck 2009 is not in the package');
+  });
+
+  it('rejects notes without a model when several models are given', async () => {
+    await expect(buildPackage({
+      models: [basicModel, wordModel],
+      decks: [vocabDeck],
+      notes: [{ fields: ['Hello', 'World'] }]
+    })).rejects.toThrow('notes[0].modelId: is required when the package has 2 models');
+  });
+
+  it('rejects notes that reference an unknown deck', async () => {
+    await expect(buildPackage({
+      model: basicModel,
+      decks: [vocabDeck],
+      notes: [{ fields: ['Hello', 'World'], deckId: 9999 }]
+    })).rejects.toThrow('notes[0].deckId: deck 9999 is not in the package');
+  });
+
+  it('creates one card per cloze number', async () => {
+    const { db } = await buildPackage({
+      model: clozeModel,
+      deck: vocabDeck,
+      notes: [{ fields: ['{{c1::Paris}} is in {{c3::France::country}}, {{c1::Europe}}', ''] }]
+    });
+
+    const [cards] = db.exec('SELECT ord FROM cards ORDER BY ord');
+    expect(cards.values).toEqual([[0], [2]]);
+    db.close();
+  });
+
+  it('rejects cloze notes without deletions', async () => {
+    await expect(buildPackage({
+      model: clozeModel,
+      deck: vocabDeck,
+      notes: [{ fields: ['Paris is in France', ''] }]
+    })).rejects.toThrow('notes[0].fields[0]: has no cloze deletions, so the note would have no cards (cloze fields: Text)');
+  });
+
+  it('skips cards whose front would be empty', async () => {
+    const { db } = await buildPackage({
+      model: optionalReverseModel,
+      deck: vocabDeck,
+      notes: [
+        { fields: ['one way', 'back', ''] },
+        { fields: ['both ways', 'back', 'y'] }
+      ]
+    });
+
+    const [cards] = db.exec('SELECT notes.sfld, cards.ord FROM cards JOIN notes ON notes.id = cards.nid ORDER BY notes.id, cards.ord');
+    expect(cards.values).toEqual([['one way', 0], ['both ways', 0], ['both ways', 1]]);
+    db.close();
+  });
+
+  it('stores stripped sort fields and first field checksums', async () => {
+    const { db } = await buildPackage({
+      model: basicModel,
+      deck: vocabDeck,
+      notes: [
+        { fields: ['<b>hello</b>', 'world'] },
+        { fields: ['42', 'answer'] }
+      ]
+    });
+
+    const [notes] = db.exec('SELECT sfld, typeof(sfld), csum FROM notes ORDER BY id');
+    expect(notes.values).toEqual([
+      ['hello', 'text', 0xaaf4c61d],
+      [42, 'integer', calculateChecksum('42')]
+    ]);
+    db.close();
+  });
+
+  it('streams notes from an async iterable across several batches', async () => {
+    async function* generateNotes(): AsyncIterable<AnkiNote> {
+      for (let i = 0; i < 2500; i++) {
+        yield await Promise.resolve({ fields: [`word ${i}`, `meaning ${i}`] });
+      }
+    }
+
+    const { db } = await buildPackage({ model: basicModel, deck: vocabDeck, notes: generateNotes() });
+
+    const [counts] = db.exec('SELECT (SELECT count(*) FROM notes), (SELECT count(*) FROM cards)');
+    expect(counts.values).toEqual([[2500, 2500]]);
+    db.close();
+  });
+
+  it('accepts notes pushed one by one and collects their media', async () => {
+    const { output, read } = memoryOutput();
+    const resolved: string[] = [];
+    const writer = new AnkiPackageWriter({
+      model: basicModel,
+      deck: vocabDeck,
+      mediaResolver: (filename) => {
+        resolved.push(filename);
+        return Promise.resolve(Readable.from([Buffer.from(filename)]));
+      },
+      output
+    });
+
+    await writer.addNote({ fields: ['Hund', '[sound:hund.mp3]'] });
+    await writer.addNotes([{ fields: ['Katze', '<img src="katze.jpg">'] }]);
+    await writer.finish();
+
+    const { files, db } = await openPackage(read());
+    expect(resolved).toEqual(['hund.mp3', 'katze.jpg']);
+    expect(JSON.parse(Buffer.from(files.media).toString())).toEqual({ '0': 'hund.mp3', '1': 'katze.jpg' });
+    expect(Buffer.from(files['1']).toString()).toBe('katze.jpg');
+    expect(db.exec('SELECT count(*) FROM notes')[0].values).toEqual([[2]]);
+    db.close();
+
+    await expect(writer.addNote({ fields: ['late', 'note'] })).rejects.toThrow('Package writer is closed');
+  });
+
+  it('writes the latest format with a zstd collection and protobuf media map', async () => {
+    const { output, read } = memoryOutput();
+    await createAnkiPackage({
+      models: [basicModel, clozeModel],
+      decks: [{ id: 2003, name: 'Languages::German', conf: 3001 }],
+      deckConfigs: [{ id: 3001, name: 'Intense' }],
+      notes: [
+        { fields: ['Hund', '[sound:hund.mp3]'], modelId: basicModel.id, tags: ['lang::de'] },
+        { fields: ['{{c1::Berlin}} is the capital', ''], modelId: clozeModel.id }
+      ],
+      mediaResolver: (filename) => Promise.resolve(Readable.from([Buffer.from(filename)])),
+      output,
+      format: 'latest'
+    });
+
+    const files = unzipSync(read());
+    expect(Object.keys(files).sort()).toEqual(['0', 'collection.anki2', 'collection.anki21b', 'media', 'meta']);
+    expect(Buffer.from(files.meta)).toEqual(Buffer.from(encodePackageMetadata(PACKAGE_VERSION_LATEST)));
+    expect(zstdDecompressSync(files['0']).toString()).toBe('hund.mp3');
+    expect(zstdDecompressSync(files.media)).toEqual(Buffer.from(encodeMediaEntries([{
+      index: 0,
+      filename: 'hund.mp3',
+      size: 8,
+      sha1: createHash('sha1').update('hund.mp3').digest()
+    }])));
+
+    const SQL = await initSqlJs();
+    const db = new SQL.Database(zstdDecompressSync(files['collection.anki21b']));
+    expect(db.exec('SELECT ver, models, decks FROM col')[0].values).toEqual([[18, '', '']]);
+    expect(db.exec('SELECT id, name FROM notetypes ORDER BY id')[0].values).toEqual([[1001, 'Basic'], [1003, 'Cloze']]);
+    expect(db.exec('SELECT name FROM decks ORDER BY name')[0].values).toEqual([['Languages'], ['Languages\x1fGerman']]);
+    expect(db.exec('SELECT count(*) FROM fields')[0].values).toEqual([[4]]);
+    expect(db.exec('SELECT id, name FROM deck_config ORDER BY id')[0].values).toEqual([[1, 'Default'], [3001, 'Intense']]);
+    expect(db.exec('SELECT count(*) FROM cards')[0].values).toEqual([[2]]);
+    expect(db.exec('SELECT tag, usn, collapsed FROM tags ORDER BY tag')[0].values).toEqual([['lang', -1, 0], ['lang::de', -1, 0]]);
+    db.close();
+
+    const stub = new SQL.Database(files['collection.anki2']);
+    expect(stub.exec('SELECT flds FROM notes')[0].values[0][0]).toContain('requires a newer version of Anki');
+    stub.close();
+  });
+
+  it('stores identical media once and renames unsafe filenames', async () => {
+    const { output, read } = memoryOutput();
+    const content: Record<string, string> = {
+      'images/dog.jpg': 'dog',
+      'hund.jpg': 'dog',
+      'cat.jpg': 'cat'
+    };
+    const resolved: string[] = [];
+
+    await createAnkiPackage({
+      model: basicModel,
+      deck: vocabDeck,
+      notes: [
+        { fields: ['<img src="images/dog.jpg">', 'dog'] },
+        { fields: ['Hund', '<img src="hund.jpg">'] },
+        { fields: ['Katze', '<img src="cat.jpg">'] }
+      ],
+      mediaResolver: (filename) => {
+        resolved.push(filename);
+        return Promise.resolve(Readable.from([Buffer.from(content[filename])]));
+      },
+      output
+    });
+
+    const { files, db } = await openPackage(read());
+    expect(resolved).toEqual(['images/dog.jpg', 'hund.jpg', 'cat.jpg']);
+    expect(JSON.parse(Buffer.from(files.media).toString())).toEqual({ '0': 'imagesdog.jpg', '1': 'cat.jpg' });
+    expect(files['2']).toBeUndefined();
+
+    const rows = db.exec('SELECT flds, sfld, csum FROM notes ORDER BY id')[0].values;
+    expect(rows.map(row => row[0])).toEqual([
+      '<img src="imagesdog.jpg">\x1fdog',
+      'Hund\x1f<img src="imagesdog.jpg">',
+      'Katze\x1f<img src="cat.jpg">'
+    ]);
+    expect(rows[0].slice(1)).toEqual([' imagesdog.jpg ', calculateChecksum('<img src="imagesdog.jpg">')]);
+    db.close();
+  });
+
+  it('numbers latest-format media entries without gaps when files are identical', async () => {
+    const { output, read } = memoryOutput();
+    const content: Record<string, string> = { 'a.jpg': 'same', 'b.jpg': 'same', 'c.jpg': 'other' };
+
+    await createAnkiPackage({
+      model: basicModel,
+      deck: vocabDeck,
+      notes: Object.keys(content).map(filename => ({ fields: [filename, `<img src="${filename}">`] })),
+      mediaResolver: (filename) => Promise.resolve(Readable.from([Buffer.from(content[filename])])),
+      output,
+      format: 'latest',
+      deterministic: true
+    });
+
+    const files = unzipSync(read());
+    expect(Object.keys(files).filter(name => /^\d+$/.test(name)).sort()).toEqual(['0', '1']);
+    expect(zstdDecompressSync(files['0']).toString()).toBe('same');
+    expect(zstdDecompressSync(files['1']).toString()).toBe('other');
+    expect(zstdDecompressSync(files.media)).toEqual(Buffer.from(encodeMediaEntries([
+      { index: 0, filename: 'a.jpg', size: 4, sha1: createHash('sha1').update('same').digest() },
+      { index: 1, filename: 'c.jpg', size: 5, sha1: createHash('sha1').update('other').digest() }
+    ])));
+  });
+
+  it('packages assets referenced by model CSS and templates', async () => {
+    const { output, read } = memoryOutput();
+    const resolved: string[] = [];
+
+    await createAnkiPackage({
+      model: {
+        ...basicModel,
+        css: '@font-face { font-family: Noto; src: url("_NotoSans.ttf"); }',
+        tmpls: [{
+          ...basicModel.tmpls[0],
+          qfmt: '<img src="_logo.png">{{Front}}<img src="{{Back}}">',
+          afmt: '{{Back}}<script src="_highlight.js"></script>'
+        }]
+      },
+      deck: vocabDeck,
+      notes: [{ fields: ['Hund', 'hund.jpg'] }],
+      mediaResolver: (filename) => {
+        resolved.push(filename);
+        return Promise.resolve(Readable.from([Buffer.from(filename)]));
+      },
+      output
+    });
+
+    const { files, db } = await openPackage(read());
+    expect(resolved).toEqual(['_NotoSans.ttf', '_logo.png', '_highlight.js']);
+    expect(JSON.parse(Buffer.from(files.media).toString()))
+      .toEqual({ '0': '_NotoSans.ttf', '1': '_logo.png', '2': '_highlight.js' });
+    db.close();
+  });
+
+  it('packages model assets that no note references', async () => {
+    const { output, read } = memoryOutput();
+    const resolved: string[] = [];
+
+    await createAnkiPackage({
+      model: {
+        ...basicModel,
+        assets: ['_jquery.js', { filename: '_font.woff2', data: Buffer.from('font') }]
+      },
+      deck: vocabDeck,
+      notes: [{ fields: ['Schrift', '<img src="copy.woff2">'] }],
+      mediaResolver: (filename) => {
+        resolved.push(filename);
+        return Promise.resolve(Readable.from([Buffer.from(filename === 'copy.woff2' ? 'font' : 'js')]));
+      },
+      output
+    });
+
+    const { files, db } = await openPackage(read());
+    expect(resolved).toEqual(['_jquery.js', 'copy.woff2']);
+    const manifest = JSON.parse(Buffer.from(files.media).toString()) as Record<string, string>;
+    const fontEntry = Object.keys(manifest).find(key => manifest[key] === '_font.woff2') ?? '';
+    expect(Object.values(manifest).sort()).toEqual(['_font.woff2', '_jquery.js']);
+    expect(Buffer.from(files[fontEntry]).toString()).toBe('font');
+
+    // The note's copy of the font is pointed at the model asset
+    expect(db.exec('SELECT flds FROM notes')[0].values).toEqual([['Schrift\x1f<img src="_font.woff2">']]);
+    const [models] = db.exec('SELECT models FROM col');
+    const storedModels = JSON.parse(models.values[0][0] as string) as Record<string, AnkiModel>;
+    expect(storedModels[basicModel.id]).not.toHaveProperty('assets');
+    db.close();
+  });
+
+  it('stores custom options groups and rejects decks that use unknown ones', async () => {
+    const deckConfigs = [{ id: 3001, name: 'Intense', new: { perDay: 50, delays: [1, 5, 30] }, rev: { maxIvl: 180 } }];
+    const { db } = await buildPackage({
+      model: basicModel,
+      decks: [{ ...vocabDeck, conf: 3001 }, grammarDeck],
+      deckConfigs,
+      notes: [{ fields: ['Hund', 'dog'], deckId: vocabDeck.id }]
+    });
+
+    const dconf = JSON.parse(db.exec('SELECT dconf FROM col')[0].values[0][0] as string) as Record<string, DeckConfig>;
+    const decks = JSON.parse(db.exec('SELECT decks FROM col')[0].values[0][0] as string) as Record<string, AnkiDeck>;
+    expect(Object.keys(dconf).sort()).toEqual(['1', '3001']);
+    expect(dconf['3001'].new).toMatchObject({ perDay: 50, delays: [1, 5, 30], ints: [1, 4, 7] });
+    expect(dconf['3001'].rev).toMatchObject({ maxIvl: 180, perDay: 200 });
+    expect([decks[vocabDeck.id].conf, decks[grammarDeck.id].conf]).toEqual([3001, 1]);
+    db.close();
+
+    await expect(buildPackage({
+      model: basicModel,
+      deck: { ...vocabDeck, conf: 3002 },
+      deckConfigs,
+      notes: []
+    })).rejects.toThrow('deck.conf: options group 3002 is not in the package');
+  });
+
+  describe('media failures', () => {
+    const notes: AnkiNote[] = [
+      { fields: ['Hund', '[sound:hund.mp3] <img src="hund.jpg">'] },
+      { fields: ['Katze', '<img src="katze.jpg">'] },
+      { fields: ['Maus', '<img src="hund.jpg">'] }
+    ];
+
+    it('skips missing files, retries flaky ones and reports the notes that used them', async () => {
+      const { output, read } = memoryOutput();
+      const attempts: Record<string, number> = {};
+
+      const report = await createAnkiPackage({
+        model: basicModel,
+        deck: vocabDeck,
+        notes,
+        mediaResolver: (filename) => {
+          attempts[filename] = (attempts[filename] ?? 0) + 1;
+          if (filename === 'hund.jpg') return Promise.reject(new Error('Not found'));
+          if (filename === 'katze.jpg' && attempts[filename] === 1) return Promise.reject(new Error('Flaky'));
+          return Promise.resolve(Readable.from([Buffer.from(filename)]));
+        },
+        output,
+        media: { onMissing: 'skip', retries: 2, retryDelayMs: 1 }
+      });
+
+      expect(attempts).toEqual({ 'hund.mp3': 1, 'hund.jpg': 3, 'katze.jpg': 2 });
+      expect(report.failures).toEqual([{
+        filename: 'hund.jpg',
+        error: new Error('Not found'),
+        action: 'skipped',
+        notes: [0, 2],
+        models: []
+      }]);
+
+      const { files, db } = await openPackage(read());
+      expect(JSON.parse(Buffer.from(files.media).toString())).toEqual({ '0': 'hund.mp3', '1': 'katze.jpg' });
+      expect(db.exec('SELECT flds FROM notes ORDER BY id')[0].values).toEqual([
+        ['Hund\x1f[sound:hund.mp3] '],
+        ['Katze\x1f<img src="katze.jpg">'],
+        ['Maus\x1f']
+      ]);
+      db.close();
+    });
+
+    it('stores a placeholder for files that time out', async () => {
+      const { output, read } = memoryOutput();
+
+      const report = await createAnkiPackage({
+        model: basicModel,
+        deck: vocabDeck,
+        notes: notes.slice(1),
+        mediaResolver: (filename) => filename === 'katze.jpg'
+          ? new Promise(() => undefined)
+          : Promise.resolve(Readable.from([Buffer.from(filename)])),
+        output,
+        media: { onMissing: 'placeholder', placeholder: Buffer.from('missing'), timeoutMs: 20 }
+      });
+
+      expect(report.failures.map(failure => [failure.filename, failure.action, failure.error.message])).toEqual([
+        ['katze.jpg', 'placeholder', 'Media file katze.jpg timed out after 20 ms']
+      ]);
+
+      const { files, db } = await openPackage(read());
+      const manifest = JSON.parse(Buffer.from(files.media).toString()) as Record<string, string>;
+      const katzeEntry = Object.keys(manifest).find(key => manifest[key] === 'katze.jpg') ?? '';
+      expect(Object.values(manifest).sort()).toEqual(['hund.jpg', 'katze.jpg']);
+      expect(Buffer.from(files[katzeEntry]).toString()).toBe('missing');
+      expect(db.exec('SELECT flds FROM notes ORDER BY id')[0].values[0]).toEqual(['Katze\x1f<img src="katze.jpg">']);
+      db.close();
+    });
+
+    it('retries streams that fail part way without leaving gaps in latest-format entries', async () => {
+      const { output, read } = memoryOutput();
+      const attempts: Record<string, number> = {};
+
+      const report = await createAnkiPackage({
+        model: basicModel,
+        deck: vocabDeck,
+        notes: [
+          { fields: ['Hund', '[sound:hund.mp3]'] },
+          { fields: ['Katze', '[sound:katze.mp3]'] },
+          { fields: ['Maus', '[sound:maus.mp3]'] }
+        ],
+        mediaResolver: (filename) => {
+          attempts[filename] = (attempts[filename] ?? 0) + 1;
+          const fails = filename === 'katze.mp3' || (filename === 'hund.mp3' && attempts[filename] === 1);
+          return Promise.resolve(Readable.from((function* () {
+            yield Buffer.from(filename.slice(0, 2));
+            if (fails) throw new Error('Connection reset');
+            yield Buffer.from(filename.slice(2));
+          })()));
+        },
+        output,
+        format: 'latest',
+        media: { onMissing: 'skip', concurrency: 1, retries: 1, retryDelayMs: 1 }
+      });
+
+      expect(attempts).toEqual({ 'hund.mp3': 2, 'katze.mp3': 2, 'maus.mp3': 1 });
+      expect(report.failures.map(failure => [failure.filename, failure.action, failure.error.message])).toEqual([
+        ['katze.mp3', 'skipped', 'Connection reset']
+      ]);
+
+      const files = unzipSync(read());
+      expect(Object.keys(files).filter(name => /^\d+$/.test(name)).sort()).toEqual(['0', '1']);
+      expect(zstdDecompressSync(files['0']).toString()).toBe('hund.mp3');
+      expect(zstdDecompressSync(files['1']).toString()).toBe('maus.mp3');
+      expect(zstdDecompressSync(files.media)).toEqual(Buffer.from(encodeMediaEntries([
+        { index: 0, filename: 'hund.mp3', size: 8, sha1: createHash('sha1').update('hund.mp3').digest() },
+        { index: 1, filename: 'maus.mp3', size: 8, sha1: createHash('sha1').update('maus.mp3').digest() }
+      ])));
+
+      const SQL = await initSqlJs();
+      const db = new SQL.Database(zstdDecompressSync(files['collection.anki21b']));
+      expect(db.exec('SELECT flds FROM notes ORDER BY id')[0].values).toEqual([
+        ['Hund\x1f[sound:hund.mp3]'],
+        ['Katze\x1f'],
+        ['Maus\x1f[sound:maus.mp3]']
+      ]);
+      db.close();
+    });
+
+    it('fails the package when a stream breaks while it is written without deduplication', async () => {
+      const created = createAnkiPackage({
+        model: basicModel,
+        deck: vocabDeck,
+        notes: [{ fields: ['Hund', '[sound:hund.mp3]'] }],
+        mediaResolver: () => Promise.resolve(Readable.from((function* () {
+          yield Buffer.from('wo');
+          throw new Error('Connection reset');
+        })())),
+        output: memoryOutput().output,
+        media: { deduplicate: false, onMissing: 'skip', retries: 2, retryDelayMs: 1 }
+      });
+
+      await expect(created).rejects.toThrow('Could not read media file hund.mp3: Connection reset');
+    });
+
+    it('cancels timed-out attempts and destroys streams that arrive late', async () => {
+      const { output, read } = memoryOutput();
+      const signals: AbortSignal[] = [];
+      const late: Readable[] = [];
+
+      await createAnkiPackage({
+        model: basicModel,
+        deck: vocabDeck,
+        notes: [{ fields: ['Hund', '[sound:hund.mp3]'] }],
+        mediaResolver: async (_filename, { signal } = {}) => {
+          if (signal) signals.push(signal);
+          const stream = Readable.from([Buffer.from('woof')]);
+          if (signals.length === 1) {
+            await sleep(40);
+            late.push(stream);
+          }
+          return stream;
+        },
+        output,
+        media: { timeoutMs: 20, retries: 1, retryDelayMs: 30 }
+      });
+
+      expect(signals.map(signal => signal.aborted)).toEqual([true, false]);
+      expect((signals[0].reason as Error).message).toBe('Media file hund.mp3 timed out after 20 ms');
+      expect(late).toHaveLength(1);
+      expect(late[0].destroyed).toBe(true);
+
+      const { files, db } = await openPackage(read());
+      expect(JSON.parse(Buffer.from(files.media).toString())).toEqual({ '0': 'hund.mp3' });
+      expect(Buffer.from(files['0']).toString()).toBe('woof');
+      db.close();
+    });
+
+    it('fails the package by default', async () => {
+      await expect(createAnkiPackage({
+        model: basicModel,
+        deck: vocabDeck,
+        notes,
+        mediaResolver: () => Promise.reject(new Error('Access denied')),
+        output: memoryOutput().output
+      })).rejects.toThrow('Could not resolve media file hund.mp3: Access denied');
+    });
+  });
+
+  it('resolves media with a rolling pool of the configured size', async () => {
+    let active = 0;
+    let maxActive = 0;
+    let slowDone = false;
+    const startedBeforeSlowDone: string[] = [];
+
+    await createAnkiPackage({
+      model: basicModel,
+      deck: vocabDeck,
+      notes: ['slow', 'b', 'c', 'd', 'e'].map(name => ({ fields: [name, `[sound:${name}.mp3]`] })),
+      mediaResolver: async (filename) => {
+        if (!slowDone) startedBeforeSlowDone.push(filename);
+        maxActive = Math.max(maxActive, ++active);
+        await sleep(filename === 'slow.mp3' ? 100 : 1);
+        if (filename === 'slow.mp3') slowDone = true;
+        active--;
+        return Readable.from([Buffer.from(filename)]);
+      },
+      output: memoryOutput().output,
+      media: { concurrency: 2 }
+    });
+
+    expect(maxActive).toBe(2);
+    // With fixed batches, c.mp3 would wait for slow.mp3 to finish
+    expect(startedBeforeSlowDone).toEqual(['slow.mp3', 'b.mp3', 'c.mp3', 'd.mp3', 'e.mp3']);
+  });
+
+  it('stops reading media while the output is blocked', async () => {
+    const chunkSize = 64 * 1024;
+    const fileSize = 2 * 1024 * 1024;
+    const names = Array.from({ length: 12 }, (_, i) => `${i}.mp3`);
+    const chunks: Buffer[] = [];
+    let blocked: (() => void)[] | null = [];
+    const output = new Writable({
+      highWaterMark: 16 * 1024,
+      write(chunk: Buffer, _encoding, callback) {
+        chunks.push(chunk);
+        if (blocked) blocked.push(callback);
+        else callback();
+      }
+    });
+
+    const resolved: string[] = [];
+    let read = 0;
+    const created = createAnkiPackage({
+      model: basicModel,
+      deck: vocabDeck,
+      notes: names.map(name => ({ fields: [name, `[sound:${name}]`] })),
+      mediaResolver: (filename) => {
+        resolved.push(filename);
+        let left = fileSize;
+        return Promise.resolve(new Readable({
+          read() {
+            read += chunkSize;
+            left -= chunkSize;
+            this.push(left < 0 ? null : Buffer.alloc(chunkSize, parseInt(filename, 10)));
+          }
+        }));
+      },
+      output
+    });
+
+    // Each of the 10 workers reads one file, then waits for the output
+    await sleep(200);
+    const readWhileBlocked = read;
+    await sleep(100);
+    expect(read).toBe(readWhileBlocked);
+    expect(resolved.length).toBeLessThanOrEqual(10);
+
+    const waiting = blocked;
+    blocked = null;
+    for (const callback of waiting) callback();
+    await created;
+
+    const { files, db } = await openPackage(Buffer.concat(chunks));
+    expect(Object.values(JSON.parse(Buffer.from(files.media).toString()) as Record<string, string>).sort())
+      .toEqual([...names].sort());
+    expect(Buffer.from(files['0']).equals(Buffer.alloc(fileSize, 0))).toBe(true);
+    db.close();
+  });
+
+  it('reports progress and logs through the given logger', async () => {
+    const events: ProgressEvent[] = [];
+    const logged: string[] = [];
+    const log = (level: string) => (message: string) => { logged.push(`${level}: ${message}`); };
+    const { output, read } = memoryOutput();
+
+    await createAnkiPackage({
+      model: basicModel,
+      deck: vocabDeck,
+      notes: [
+        { fields: ['Hund', '[sound:hund.mp3]'] },
+        { fields: ['Katze', '[sound:katze.mp3]'] }
+      ],
+      mediaResolver: (filename) => filename === 'katze.mp3'
+        ? Promise.reject(new Error('Not found'))
+        : Promise.resolve(Readable.from([Buffer.from('woof')])),
+      output,
+      media: { onMissing: 'skip', concurrency: 1 },
+      logger: { debug: log('debug'), info: log('info'), warn: log('warn'), error: log('error') },
+      onProgress: (event) => events.push(event)
+    });
+
+    const bytes = read().length;
+    const byType = (type: ProgressEvent['type']) => events.filter(event => event.type === type);
+    expect(byType('notes-inserted')).toEqual([{ type: 'notes-inserted', count: 2, total: 2 }]);
+    expect(byType('media-resolved')).toEqual([
+      { type: 'media-resolved', filename: 'hund.mp3', bytes: 4, completed: 1, total: 2 }
+    ]);
+    expect(byType('media-failed')).toMatchObject([
+      { type: 'media-failed', filename: 'katze.mp3', action: 'skipped', completed: 2, total: 2 }
+    ]);
+    expect(byType('media-written')).toEqual([{ type: 'media-written', filename: 'hund.mp3', index: 0, bytes: 4 }]);
+    expect(byType('database-exported')).toHaveLength(1);
+    expect(events[events.length - 1]).toEqual({ type: 'archive-finalized', bytes, notes: 2, mediaFiles: 1 });
+
+    expect(logged).toEqual([
+      'debug: Added media file to ZIP: hund.mp3 (index: 0)',
+      'warn: Media file katze.mp3 skipped: Not found',
+      `info: Wrote package: 2 notes, 1 media files, ${bytes} bytes`
+    ]);
+  });
+
+  describe('deterministic output', () => {
+    const notes: AnkiNote[] = [
+      { fields: ['Hund', '[sound:hund.mp3]'] },
+      { fields: ['Katze', '[sound:katze.mp3]'] },
+      { fields: ['Maus', '[sound:maus.mp3]'] }
+    ];
+
+    // Files resolve in a different order each time, depending on `slow`
+    async function build(format: PackageFormat, slow: string) {
+      const { output, read } = memoryOutput();
+      await createAnkiPackage({
+        model: basicModel,
+        deck: vocabDeck,
+        notes,
+        mediaResolver: async (filename) => {
+          await sleep(filename === slow ? 30 : 1);
+          return Readable.from([Buffer.from(filename === 'maus.mp3' ? 'hund.mp3' : filename)]);
+        },
+        output,
+        format,
+        deterministic: true
+      });
+      return read();
+    }
+
+    it.each<PackageFormat>(['legacy', 'latest'])('writes identical %s packages for identical input', async (format) => {
+      const first = await build(format, 'hund.mp3');
+      const second = await build(format, 'katze.mp3');
+      expect(first.equals(second)).toBe(true);
+    });
+
+    it('takes ids and timestamps from the clock', async () => {
+      const time = Date.UTC(2024, 5, 1, 12);
+      const { db } = await buildPackage({
+        model: basicModel,
+        deck: vocabDeck,
+        notes: [{ fields: ['Hund', 'dog'] }],
+        clock: () => time
+      });
+
+      // The collection is created at the 4 am rollover of the clock's day
+      expect(db.exec('SELECT crt, mod FROM col')[0].values[0]).toEqual([Date.UTC(2024, 5, 1, 4) / 1000, time]);
+      expect(db.exec('SELECT id, mod FROM notes')[0].values[0]).toEqual([time, time / 1000]);
+      expect(db.exec('SELECT id, due FROM cards')[0].values[0]).toEqual([generateCardId(time, 0), time]);
+      db.close();
+    });
+  });
+
+  describe('cancellation', () => {
+    it('destroys in-flight media streams and rejects with an abort error', async () => {
+      const controller = new AbortController();
+      const streams: Readable[] = [];
+      const { output } = memoryOutput();
+
+      const created = createAnkiPackage({
+        model: basicModel,
+        deck: vocabDeck,
+        notes: [{ fields: ['Hund', '[sound:hund.mp3]'] }],
+        mediaResolver: () => {
+          // Sends one chunk, then stalls
+          const stream = new Readable({ read() { /* stalled */ } });
+          stream.push(Buffer.from('woof'));
+          streams.push(stream);
+          setTimeout(() => controller.abort(new Error('User cancelled')), 10);
+          return Promise.resolve(stream);
+        },
+        output,
+        media: { deduplicate: false, onMissing: 'skip' },
+        signal: controller.signal
+      });
+
+      const error: unknown = await created.catch((err: unknown) => err);
+      expect(error).toBeInstanceOf(PackageAbortedError);
+      expect((error as Error).cause).toEqual(new Error('User cancelled'));
+      expect(streams).toHaveLength(1);
+      expect(streams[0].destroyed).toBe(true);
+      expect(output.writableEnded).toBe(false);
+    });
+
+    it('rejects notes once the signal has aborted', async () => {
+      const writer = new AnkiPackageWriter({
+        model: basicModel,
+        deck: vocabDeck,
+        mediaResolver: () => Promise.reject(new Error('No media expected')),
+        output: memoryOutput().output,
+        signal: AbortSignal.abort()
+      });
+
+      await expect(writer.addNote({ fields: ['Hund', 'dog'] })).rejects.toThrow(PackageAbortedError);
+      await expect(writer.finish()).rejects.toThrow('Package creation was aborted');
+    });
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+
+import { MediaRegistry, sanitizeMediaFilename } from '../src/media.js';
+
+describe('sanitizeMediaFilename', () => {
+  it('keeps ordinary names', () => {
+    expect(sanitizeMediaFilename('hund.mp3')).toBe('hund.mp3');
+    expect(sanitizeMediaFilename('straße 1.jpg')).toBe('straße 1.jpg');
+  });
+
+  it('strips path separators and reserved characters', () => {
+    expect(sanitizeMediaFilename('../images/cat.jpg')).toBe('..imagescat.jpg');
+    expect(sanitizeMediaFilename('C:\\tmp\\a<b>|c?.png')).toBe('Ctmpabc.png');
+    expect(sanitizeMediaFilename('line\nbreak.mp3')).toBe('linebreak.mp3');
+  });
+
+  it('normalizes to NFC', () => {
+    expect(sanitizeMediaFilename('cafe\u0301.jpg')).toBe('caf\u00e9.jpg');
+  });
+
+  it('renames Windows device names and trailing dots', () => {
+    expect(sanitizeMediaFilename('con.jpg')).toBe('con_.jpg');
+    expect(sanitizeMediaFilename('NUL')).toBe('NUL_');
+    expect(sanitizeMediaFilename('image.')).toBe('image._');
+  });
+
+  it('truncates long names but keeps the extension', () => {
+    const name = sanitizeMediaFilename(`${'ä'.repeat(100)}.jpg`);
+    expect(Buffer.byteLength(name)).toBeLessThanOrEqual(120);
+    expect(name.endsWith('ää.jpg')).toBe(true);
+  });
+
+  it('rejects names with nothing usable left', () => {
+    expect(() => sanitizeMediaFilename('//')).toThrow('has no usable characters');
+    expect(() => sanitizeMediaFilename('..')).toThrow('has no usable characters');
+  });
+});
+
+describe('MediaRegistry', () => {
+  it('keeps names unique after sanitizing', () => {
+    const registry = new MediaRegistry();
+    expect(registry.add('a/b.jpg')).toBe('ab.jpg');
+    expect(registry.add('ab.jpg')).toBe('ab_2.jpg');
+    expect(registry.add('a/b.jpg')).toBe('ab.jpg');
+    expect(registry.filenames).toEqual(['ab.jpg', 'ab_2.jpg']);
+    expect(registry.original('ab_2.jpg')).toBe('ab.jpg');
+    expect(registry.original('ab.jpg')).toBe('a/b.jpg');
+  });
+});
@@ -0,0 +1,152 @@
+import { Readable, Writable } from 'node:stream';
+import { unzipSync, zipSync } from 'fflate';
+import { describe, expect, it } from 'vitest';
+
+import { createAnkiPackage } from '../src/index.js';
+import type { AnkiModel, CreatePackageOptions } from '../src/index.js';
+import { encodePackageMetadata, PACKAGE_VERSION_LEGACY_2 } from '../src/protobuf.js';
+import { readAnkiPackage } from '../src/reader.js';
+
+const model: AnkiModel = {
+  id: 1001,
+  name: 'Basic',
+  flds: [
+    { name: 'Front', ord: 0 },
+    { name: 'Back', ord: 1 }
+  ],
+  tmpls: [{ name: 'Card 1', ord: 0, qfmt: '{{Front}}', afmt: '{{Back}}' }],
+  css: '.card { color: black; }'
+};
+
+const media: Record<string, string> = {
+  'hund.mp3': 'woof',
+  'katze.jpg': 'meow'
+};
+
+async function writePackage(options: Omit<CreatePackageOptions, 'output'>): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  const output = new Writable({
+    write(chunk: Buffer, _encoding, callback) {
+      chunks.push(chunk);
+      callback();
+    }
+  });
+
+  await createAnkiPackage({ ...options, output });
+  return Buffer.concat(chunks);
+}
+
+function mediaResolver(filename: string): Promise<NodeJS.ReadableStream> {
+  return Promise.resolve(Readable.from([Buffer.from(media[filename])]));
+}
+
+describe('readAnkiPackage', () => {
+  it('reads models, decks, notes and media', async () => {
+    const data = await writePackage({
+      model,
+      decks: [{ id: 2001, name: 'German::Animals' }],
+      notes: [
+        { fields: ['Hund', '[sound:hund.mp3]'], tags: ['animal', 'noun'], guid: 'guid-1' },
+        { fields: ['Katze', '<img src="katze.jpg">'] }
+      ],
+      mediaResolver
+    });
+
+    const pkg = await readAnkiPackage(Readable.from([data]));
+
+    expect(pkg.models.map(m => [m.id, m.name, m.flds.map(f => f.name)])).toEqual([[1001, 'Basic', ['Front', 'Back']]]);
+    expect(pkg.decks.map(d => d.name).sort()).toEqual(['German', 'German::Animals']);
+    expect(pkg.notes[0]).toEqual({
+      id: expect.any(Number) as number,
+      fields: ['Hund', '[sound:hund.mp3]'],
+      tags: ['animal', 'noun'],
+      guid: 'guid-1',
+      modelId: 1001,
+      deckId: 2001
+    });
+    expect(pkg.media.filenames).toEqual(['hund.mp3', 'katze.jpg']);
+    expect(Buffer.from(pkg.media.read('katze.jpg')).toString()).toBe('meow');
+    expect(() => pkg.media.read('missing.png')).toThrow('Media file missing.png not found in package');
+  });
+
+  it('re-exports a package read from disk', async () => {
+    const original = await writePackage({
+      model,
+      deck: { id: 2001, name: 'German', conf: 3001 },
+      deckConfigs: [{ id: 3001, name: 'Intense', new: { perDay: 50 } }],
+      notes: [{ fields: ['Hund', '[sound:hund.mp3]'], guid: 'guid-1' }],
+      mediaResolver
+    });
+
+    const pkg = await readAnkiPackage(original);
+    pkg.notes[0].fields[1] += ' (dog)';
+
+    const patched = await readAnkiPackage(await writePackage({
+      models: pkg.models,
+      decks: pkg.decks,
+      deckConfigs: pkg.deckConfigs,
+      notes: pkg.notes,
+      mediaResolver: pkg.media.resolver
+    }));
+
+    expect(patched.notes[0].fields).toEqual(['Hund', '[sound:hund.mp3] (dog)']);
+    expect(patched.notes[0].guid).toBe('guid-1');
+    expect(patched.deckConfigs.find(conf => conf.id === 3001)?.new?.perDay).toBe(50);
+    expect(Buffer.from(patched.media.read('hund.mp3')).toString()).toBe('woof');
+  });
+
+  it('keeps cards in the decks they were placed in', async () => {
+    const reversed: AnkiModel = {
+      ...model,
+      tmpls: [...model.tmpls, { name: 'Card 2', ord: 1, qfmt: '{{Back}}', afmt: '{{Front}}', did: 2002 }]
+    };
+    const data = await writePackage({
+      model: reversed,
+      decks: [{ id: 2001, name: 'Reading' }, { id: 2002, name: 'Writing' }, { id: 2003, name: 'Speaking' }],
+      notes: [
+        { fields: ['Hund', 'dog'], deckId: 2001 },
+        { fields: ['Katze', 'cat'], deckId: 2001, cardDecks: { 1: 2003 } }
+      ],
+      mediaResolver
+    });
+
+    const pkg = await readAnkiPackage(data);
+    expect(pkg.notes.map(note => [note.deckId, note.cardDecks])).toEqual([
+      [2001, undefined],
+      [2001, { 1: 2003 }]
+    ]);
+  });
+
+  it('reads legacy exports that carry a version 2 meta', async () => {
+    const data = await writePackage({
+      model,
+      deck: { id: 2001, name: 'German' },
+      notes: [{ fields: ['Hund', '[sound:hund.mp3]'] }],
+      mediaResolver
+    });
+
+    // Laid out like Anki's "support older versions" export
+    const { 'collection.anki2': collection, ...files } = unzipSync(data);
+    const legacy2 = zipSync({
+      ...files,
+      'collection.anki21': collection,
+      meta: encodePackageMetadata(PACKAGE_VERSION_LEGACY_2)
+    });
+
+    const pkg = await readAnkiPackage(legacy2);
+    expect(pkg.notes.map(note => note.fields)).toEqual([['Hund', '[sound:hund.mp3]']]);
+    expect(Buffer.from(pkg.media.read('hund.mp3')).toString()).toBe('woof');
+  });
+
+  it('rejects latest-format packages', async () => {
+    const data = await writePackage({
+      model,
+      deck: { id: 2001, name: 'German' },
+      notes: [{ fields: ['Hund', 'dog'] }],
+      mediaResolver,
+      format: 'latest'
+    });
+
+    await expect(readAnkiPackage(data)).rejects.toThrow('latest-format (collection.anki21b) packages is not supported');
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+
+import { renderCard } from '../src/renderer.js';
+import type { AnkiModel } from '../src/types.js';
+
+const basicModel: AnkiModel = {
+  id: 1,
+  name: 'Basic',
+  flds: [
+    { name: 'Front', ord: 0 },
+    { name: 'Back', ord: 1 },
+    { name: 'Hint', ord: 2 }
+  ],
+  tmpls: [
+    {
+      name: 'Card 1',
+      ord: 0,
+      qfmt: '{{Front}}{{#Hint}}<br>{{hint:Hint}}{{/Hint}}{{^Hint}}<br>no hint{{/Hint}}',
+      afmt: '{{FrontSide}}<hr id=answer>{{text:Back}} [{{Deck}}/{{Subdeck}}] {{Tags}}'
+    },
+    { name: 'Card 2', ord: 1, qfmt: '{{tts en_US:Back}} {{type:Front}}', afmt: '{{type:Front}}' }
+  ],
+  css: '.card { color: black; }'
+};
+
+const clozeModel: AnkiModel = {
+  id: 2,
+  name: 'Cloze',
+  type: 1,
+  flds: [{ name: 'Text', ord: 0 }],
+  tmpls: [{ name: 'Cloze', ord: 0, qfmt: '{{cloze:Text}}', afmt: '{{cloze:Text}}' }],
+  css: '.cloze { color: blue; }'
+};
+
+describe('renderCard', () => {
+  it('renders fields, conditionals and special fields', () => {
+    const card = renderCard(
+      basicModel,
+      { fields: ['Hund', '<b>dog</b> &amp; cat', ''], tags: ['animals', 'german'] },
+      { deckName: 'German::Animals' }
+    );
+
+    expect(card.question).toBe('<style>.card { color: black; }</style><div class="card card1">Hund<br>no hint</div>');
+    expect(card.answer).toBe(
+      '<style>.card { color: black; }</style><div class="card card1">' +
+      'Hund<br>no hint<hr id=answer>dog & cat [German::Animals/Animals] animals german</div>'
+    );
+  });
+
+  it('renders hint, tts and type filters', () => {
+    const note = { fields: ['Hund', 'dog', 'starts with H'] };
+
+    expect(renderCard(basicModel, note).question).toContain(
+      '<a class="hint" href="#" onclick="this.style.display=\'none\';' +
+      'document.getElementById(\'hint1\').style.display=\'block\';return false;">Hint</a>' +
+      '<div id="hint1" class="hint" style="display: none">starts with H</div>'
+    );
+
+    const reverse = renderCard(basicModel, note, { ord: 1 });
+    expect(reverse.question).toContain('[anki:tts lang=en_US]dog[/anki:tts] <input type="text" id="typeans">');
+    expect(reverse.answer).toContain('<code id="typeans">Hund</code>');
+  });
+
+  it('renders the active cloze deletion', () => {
+    const note = { fields: ['{{c1::Paris}} is in {{c2::France::country}}'] };
+    const card = renderCard(clozeModel, note, { ord: 1 });
+
+    expect(card.question).toBe(
+      '<style>.cloze { color: blue; }</style><div class="card card2">' +
+      '<span class="cloze-inactive" data-ordinal="1">Paris</span> is in ' +
+      '<span class="cloze" data-ordinal="2">[country]</span></div>'
+    );
+    expect(card.answer).toContain('<span class="cloze" data-ordinal="2">France</span>');
+    expect(renderCard(clozeModel, note, { ord: 4 }).question).toBe(
+      '<style>.cloze { color: blue; }</style><div class="card card5"></div>'
+    );
+  });
+});
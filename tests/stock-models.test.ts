@@ -0,0 +1,84 @@
+import initSqlJs from 'sql.js';
+import { describe, expect, it } from 'vitest';
+
+import { AnkiDatabase } from '../src/database.js';
+import {
+  basicAndReversedModel,
+  basicModel,
+  basicOptionalReversedModel,
+  basicTypingModel,
+  clozeModel,
+  imageOcclusionModel,
+  modelIdFromName
+} from '../src/stock-models.js';
+import type { AnkiModel, AnkiNote } from '../src/types.js';
+import { validatePackage } from '../src/validation.js';
+
+async function cardOrds(model: AnkiModel, notes: AnkiNote[]): Promise<unknown[][]> {
+  const db = new AnkiDatabase();
+  await db.init();
+  try {
+    db.addModel(model);
+    db.addDeck({ id: 2001, name: 'Deck' });
+    db.addNotes(notes.map(note => ({ ...note, modelId: model.id, deckId: 2001 })));
+
+    const SQL = await initSqlJs();
+    const exported = new SQL.Database(db.export());
+    const [cards] = exported.exec('SELECT nid, ord FROM cards ORDER BY nid, ord');
+    exported.close();
+    return cards.values;
+  } finally {
+    db.close();
+  }
+}
+
+describe('stock models', () => {
+  it.each([
+    basicModel(),
+    basicAndReversedModel(),
+    basicOptionalReversedModel(),
+    basicTypingModel(),
+    clozeModel(),
+    imageOcclusionModel()
+  ])('builds a valid $name note type', model => {
+    expect(validatePackage({ model, deck: { id: 2001, name: 'Deck' } })).toEqual([]);
+    expect(model.req).toHaveLength(model.tmpls.length);
+  });
+
+  it('uses stable ids derived from the name', () => {
+    expect(basicModel().id).toBe(basicModel().id);
+    expect(basicModel().id).toBe(modelIdFromName('Basic'));
+    expect(basicModel({ name: 'Vocab' }).id).toBe(modelIdFromName('Vocab'));
+    expect(basicModel({ id: 42, css: '.card {}' })).toMatchObject({ id: 42, name: 'Basic', css: '.card {}' });
+    expect(new Set([basicModel(), basicAndReversedModel(), clozeModel()].map(model => model.id)).size).toBe(3);
+  });
+
+  it('only creates the optional reverse card when asked to', async () => {
+    const model = basicOptionalReversedModel();
+
+    expect(model.req).toEqual([[0, 'any', [0]], [1, 'all', [1, 2]]]);
+    expect(await cardOrds(model, [
+      { id: 1, fields: ['Hund', 'dog', ''] },
+      { id: 2, fields: ['Katze', 'cat', 'y'] }
+    ])).toEqual([[1, 0], [2, 0], [2, 1]]);
+  });
+
+  it('creates a card per cloze and occlusion group', async () => {
+    expect(await cardOrds(clozeModel(), [
+      { id: 1, fields: ['{{c1::Paris}} is in {{c2::France}}', ''] }
+    ])).toEqual([[1, 0], [1, 1]]);
+
+    const occlusion = imageOcclusionModel();
+    expect(occlusion.flds.map(field => field.tag)).toEqual([0, 1, 2, 3, 4]);
+    expect(await cardOrds(occlusion, [{
+      id: 1,
+      fields: [
+        '{{c1::image-occlusion:rect:left=.1:top=.2:width=.3:height=.1}}{{c3::image-occlusion:ellipse:left=.5:top=.5:rx=.1:ry=.1}}',
+        '<img src="heart.png">',
+        'Heart',
+        '',
+        ''
+      ]
+    }])).toEqual([[1, 0], [1, 2]]);
+  });
+});
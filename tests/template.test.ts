@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+
+import { isFieldEmpty, parseTemplate, rendersWithFields } from '../src/template.js';
+
+describe('template', () => {
+  it('parses replacements, filters and conditionals', () => {
+    expect(parseTemplate('<b>{{text:cloze:Text}}</b>{{#Extra}}{{ Extra }}{{/Extra}}{{^Hint}}-{{/Hint}}')).toEqual([
+      { type: 'text', text: '<b>' },
+      { type: 'replacement', key: 'Text', filters: ['cloze', 'text'] },
+      { type: 'text', text: '</b>' },
+      {
+        type: 'conditional',
+        key: 'Extra',
+        negated: false,
+        children: [{ type: 'replacement', key: 'Extra', filters: [] }]
+      },
+      { type: 'conditional', key: 'Hint', negated: true, children: [{ type: 'text', text: '-' }] }
+    ]);
+  });
+
+  it('rejects unbalanced conditionals', () => {
+    expect(() => parseTemplate('{{#Front}}{{Front}}')).toThrow('Template is missing {{/Front}}');
+    expect(() => parseTemplate('{{#Front}}{{/Back}}')).toThrow('Template closes {{/Back}} but {{#Front}} is still open');
+    expect(() => parseTemplate('{{/Front}}')).toThrow('Template has {{/Front}} without a matching {{#Front}}');
+  });
+
+  it('checks whether a template renders field content', () => {
+    const nodes = parseTemplate('Q: {{#Reverse}}{{Back}}{{/Reverse}}{{^Reverse}}{{FrontSide}}{{/Reverse}}');
+
+    expect(rendersWithFields(nodes, new Set(['Back']))).toBe(false);
+    expect(rendersWithFields(nodes, new Set(['Back', 'Reverse']))).toBe(true);
+  });
+
+  it('treats whitespace and empty markup as an empty field', () => {
+    expect(isFieldEmpty(' <br> <div></div> ')).toBe(true);
+    expect(isFieldEmpty('<b></b>')).toBe(false);
+  });
+});
@@ -4,8 +4,14 @@ import { buildMediaManifest, collectMediaFilenames } from '../src/zip-writer.js'
 import {
   IdGenerator,
   extractMediaFilenames,
+  replaceMediaFilenames,
+  generateCardId,
   generateGuid,
-  generateRequirements
+  calculateChecksum,
+  generateRequirements,
+  normalizeTags,
+  stripHtml,
+  stripHtmlMedia
 } from '../src/utils.js';
 
 describe('utils', () => {
@@ -21,6 +27,74 @@ describe('utils', () => {
     expect(extractMediaFilenames(html)).toEqual(['audio.mp3', 'picture.png', 'nested/photo.jpg']);
   });
 
+  it('extracts media from audio, video, object and inline styles', () => {
+    const html = `
+      <audio controls src="bark.ogg"></audio>
+      <video poster="poster.jpg"><source src='clip.webm'><source src=clip.mp4></video>
+      <object data="diagram.svg"></object>
+      <div style="background: url(&quot;bg%20image.png&quot;)">x</div>
+      <style>.a { background: url('tile.png') }</style>
+      <img src="fish &amp; chips.jpg"> <img src="https://example.com/remote.png">
+      <img src="data:image/png;base64,AAAA"> <img src="{{Picture}}">
+      Plain text mentioning url(not-media.png)
+    `;
+
+    expect(extractMediaFilenames(html)).toEqual([
+      'bark.ogg',
+      'poster.jpg',
+      'clip.webm',
+      'clip.mp4',
+      'diagram.svg',
+      'fish & chips.jpg',
+      'bg image.png',
+      'tile.png'
+    ]);
+  });
+
+  it('extracts scripts and stylesheets that templates load from the media folder', () => {
+    const html = `
+      <link rel="stylesheet" href="_cards.css">
+      <link rel="stylesheet" href="https://example.com/remote.css">
+      <script src="_jquery.js"></script>
+      <script src='_helpers.js'></script>
+      <script>var inline = 1;</script>
+      {{Front}}
+    `;
+
+    expect(extractMediaFilenames(html)).toEqual(['_cards.css', '_jquery.js', '_helpers.js']);
+    expect(replaceMediaFilenames(html, filename => filename === '_jquery.js' ? '_jquery-3.js' : filename))
+      .toContain('<script src="_jquery-3.js"></script>');
+  });
+
+  it('extracts media from model CSS', () => {
+    const css = `@font-face { font-family: Noto; src: url("_NotoSans.ttf"); }
+      .card { background: url(_paper.png); } .x { background: url(https://example.com/a.png); }`;
+    expect(extractMediaFilenames(css, 'css')).toEqual(['_NotoSans.ttf', '_paper.png']);
+  });
+
+  it('replaces media filenames and re-encodes changed names', () => {
+    const html = '[sound:a.mp3] <img src="b%20c.jpg"> <img src="keep.jpg"> <span style="background: url(d.png)">';
+    const renamed: Record<string, string> = { 'a.mp3': 'x&y.mp3', 'b c.jpg': 'b_c.jpg', 'd.png': 'e f.png' };
+
+    expect(replaceMediaFilenames(html, name => renamed[name] ?? name)).toBe(
+      '[sound:x&amp;y.mp3] <img src="b_c.jpg"> <img src="keep.jpg"> <span style="background: url(\'e f.png\')">'
+    );
+  });
+
+  it('strips HTML and decodes entities', () => {
+    expect(stripHtml('<style>b {}</style><b>fish</b> &amp; &#x63;hips<!-- x -->&nbsp;')).toBe('fish & chips ');
+  });
+
+  it('keeps media filenames when stripping HTML for checksums', () => {
+    expect(stripHtmlMedia('<b>cat</b><img class="x" src="cat.jpg">[sound:cat.mp3]')).toBe('cat cat.jpg [sound:cat.mp3]');
+  });
+
+  it('calculates Anki field checksums', () => {
+    // int(sha1("hello").hexdigest()[:8], 16)
+    expect(calculateChecksum('hello')).toBe(0xaaf4c61d);
+    expect(calculateChecksum('<b>hello</b>')).toBe(0xaaf4c61d);
+  });
+
   it('builds media manifest with numeric keys', () => {
     const manifest = buildMediaManifest(['first.png', 'second.mp3']);
 
@@ -42,6 +116,20 @@ describe('utils', () => {
     expect(generateGuid('hello')).toBe('hZ%+.BW-%^');
   });
 
+  it('derives stable card ids from note ids and ordinals', () => {
+    expect(generateCardId(1700000000000, 0)).toBe(1700000000000);
+    expect(generateCardId(1700000000000, 2)).toBe(1700000000002);
+  });
+
+  it('normalizes tags and drops duplicates regardless of case', () => {
+    expect(normalizeTags([' two  words ', 'Lang::DE', 'lang::de', '', 'a\x01b', '::Lang::::Verbs::', 'Two_Words'])).toEqual([
+      'two_words',
+      'Lang::DE',
+      'ab',
+      'Lang::Verbs'
+    ]);
+  });
+
   it('increments IdGenerator sequentially', () => {
     const generator = new IdGenerator(1000);
 
@@ -49,16 +137,31 @@ describe('utils', () => {
     expect(generator.next()).toBe(1000);
     expect(generator.peek()).toBe(1001);
     expect(generator.next()).toBe(1001);
+
+    generator.skipPast(1005);
+    expect(generator.next()).toBe(1006);
+    generator.skipPast(1000);
+    expect(generator.next()).toBe(1007);
   });
 
-  it('creates requirements for each template', () => {
-    const templates = [{}, {}, {}];
-    const result = generateRequirements(templates, []);
+  it('computes requirements from question templates', () => {
+    const fields = [
+      { name: 'Front', ord: 0 },
+      { name: 'Back', ord: 1 },
+      { name: 'Add Reverse', ord: 2 }
+    ];
+    const templates = [
+      { name: 'Card 1', ord: 0, qfmt: '{{Front}}', afmt: '' },
+      { name: 'Card 2', ord: 1, qfmt: '{{#Add Reverse}}{{Back}}{{/Add Reverse}}', afmt: '' },
+      { name: 'Card 3', ord: 2, qfmt: '{{Front}}<br>{{Back}}', afmt: '' },
+      { name: 'Card 4', ord: 3, qfmt: 'Static {{Tags}}', afmt: '' }
+    ];
 
-    expect(result).toEqual([
+    expect(generateRequirements(templates, fields)).toEqual([
       [0, 'any', [0]],
-      [1, 'any', [0]],
-      [2, 'any', [0]]
+      [1, 'all', [1, 2]],
+      [2, 'any', [0, 1]],
+      [3, 'none', []]
     ]);
   });
 });
@@ -0,0 +1,147 @@
+import { Writable } from 'node:stream';
+import { describe, expect, it } from 'vitest';
+
+import { createAnkiPackage, PackageValidationError } from '../src/index.js';
+import type { AnkiModel, AnkiNote } from '../src/index.js';
+import { validatePackage } from '../src/validation.js';
+
+const model: AnkiModel = {
+  id: 1001,
+  name: 'Basic',
+  flds: [
+    { name: 'Front', ord: 0 },
+    { name: 'Back', ord: 1 }
+  ],
+  tmpls: [{ name: 'Card 1', ord: 0, qfmt: '{{Front}}', afmt: '{{FrontSide}}<hr id=answer>{{Back}}' }],
+  css: ''
+};
+
+const deck = { id: 2001, name: 'Vocab' };
+
+describe('validatePackage', () => {
+  it('accepts a valid package', () => {
+    expect(validatePackage({ model, deck, notes: [{ fields: ['Hund', 'dog'], tags: ['noun'] }] })).toEqual([]);
+  });
+
+  it('reports every problem with its path', () => {
+    const broken: AnkiModel = {
+      ...model,
+      flds: [
+        { name: 'Front', ord: 0 },
+        { name: 'Back', ord: 0 }
+      ],
+      tmpls: [{ name: 'Card 1', ord: 0, qfmt: '{{Front}} {{#Extra}}{{Extra}}{{/Extra}}', afmt: '{{Back}}' }]
+    };
+
+    expect(validatePackage({
+      models: [broken],
+      decks: [deck, { id: 2002, name: '  ' }],
+      notes: [
+        { fields: ['Hund', 'dog'], deckId: 2001 },
+        { fields: ['Katze', 'cat\x1fmeow'], deckId: 2001 },
+        { fields: ['Maus'], deckId: 2001 }
+      ]
+    })).toEqual([
+      { path: 'decks[1].name', message: 'must not be empty' },
+      { path: 'models[0].flds[1].ord', message: 'must be 1: ords number fields from 0 in order' },
+      { path: 'models[0].tmpls[0].qfmt', message: 'uses field "Extra", which the model does not have' },
+      { path: 'notes[1].fields[1]', message: 'must not contain the field separator \\x1f' },
+      { path: 'notes[2].fields', message: 'has 1 fields, but model 1001 expects 2' }
+    ]);
+  });
+
+  it('checks ids, cloze templates, options group references and tags', () => {
+    const cloze: AnkiModel = { ...model, id: 1001, type: 1, keyFields: ['Word'] };
+
+    expect(validatePackage({
+      models: [model, cloze],
+      deck: { ...deck, conf: 3001 },
+      notes: [
+        { id: 5, fields: ['Hund', 'dog'], modelId: 1001 },
+        { id: 5, fields: ['Katze', 'cat'], modelId: 1001, tags: ['two words'] }
+      ],
+      tags: ['source::import', 42 as unknown as string]
+    })).toEqual([
+      { path: 'deck.conf', message: 'options group 3001 is not in the package' },
+      { path: 'models[1].id', message: '1001 is also used by models[0]' },
+      { path: 'models[1].tmpls[0].qfmt', message: 'cloze models need a {{cloze:Field}} replacement' },
+      { path: 'models[1].keyFields[0]', message: '"Word" is not one of the model\'s fields' },
+      { path: 'tags[1]', message: 'must be a string' },
+      { path: 'notes[1].id', message: '5 is also used by notes[0]' }
+    ]);
+  });
+
+  it('reports notes that would have no cards', () => {
+    const cloze: AnkiModel = {
+      ...model,
+      id: 1002,
+      name: 'Cloze',
+      type: 1,
+      flds: [{ name: 'Text', ord: 0 }, { name: 'Extra', ord: 1 }],
+      tmpls: [{ name: 'Cloze', ord: 0, qfmt: '{{cloze:Text}}', afmt: '{{cloze:Text}}<br>{{Extra}}' }]
+    };
+
+    expect(validatePackage({
+      models: [model, cloze],
+      deck,
+      notes: [
+        { fields: ['', 'dog'], modelId: 1001 },
+        { fields: ['{{c1::Paris}} is in France', ''], modelId: 1002 },
+        { fields: ['Paris is in France', '{{c1::Extra}}'], modelId: 1002 }
+      ]
+    })).toEqual([
+      { path: 'notes[0].fields', message: 'leave every card front empty, so the note would have no cards' },
+      { path: 'notes[2].fields[0]', message: 'has no cloze deletions, so the note would have no cards (cloze fields: Text)' }
+    ]);
+  });
+});
+
+describe('package pre-flight', () => {
+  function countingOutput() {
+    let bytes = 0;
+    const output = new Writable({
+      write(chunk: Buffer, _encoding, callback) {
+        bytes += chunk.length;
+        callback();
+      }
+    });
+    return { output, bytes: () => bytes };
+  }
+
+  it('rejects invalid input before writing anything', async () => {
+    const { output, bytes } = countingOutput();
+    const error: unknown = await createAnkiPackage({
+      model,
+      deck: { ...deck, name: '' },
+      notes: [{ fields: ['Hund'] }],
+      mediaResolver: () => Promise.reject(new Error('No media expected')),
+      output
+    }).catch((err: unknown) => err);
+
+    expect(error).toBeInstanceOf(PackageValidationError);
+    expect((error as PackageValidationError).issues.map(issue => issue.path)).toEqual(['deck.name', 'notes[0].fields']);
+    expect((error as Error).message).toBe([
+      'Invalid package input:',
+      '  deck.name: must not be empty',
+      '  notes[0].fields: has 1 fields, but model 1001 expects 2'
+    ].join('\n'));
+    expect(bytes()).toBe(0);
+  });
+
+  it('validates streamed notes as they arrive', async () => {
+    async function* notes(): AsyncIterable<AnkiNote> {
+      yield await Promise.resolve({ fields: ['Hund', 'dog'] });
+      yield await Promise.resolve({ fields: ['Katze', 'cat'], deckId: 2009 });
+    }
+
+    const { output, bytes } = countingOutput();
+    await expect(createAnkiPackage({
+      model,
+      deck,
+      notes: notes(),
+      mediaResolver: () => Promise.reject(new Error('No media expected')),
+      output
+    })).rejects.toThrow('notes[1].deckId: deck 2009 is not in the package');
+    expect(bytes()).toBe(0);
+  });
+});
@@ -0,0 +1,57 @@
+import { setTimeout as sleep } from 'node:timers/promises';
+import { Writable } from 'node:stream';
+import { unzipSync } from 'fflate';
+import { describe, expect, it } from 'vitest';
+
+import { ApkgZipWriter } from '../src/zip-writer.js';
+
+const CHUNK_SIZE = 64 * 1024;
+const CHUNKS = 48;
+
+describe('ApkgZipWriter', () => {
+  it('pauses media streams while the output is not draining', async () => {
+    const chunks: Buffer[] = [];
+    let written = 0;
+    const output = new Writable({
+      highWaterMark: 16 * 1024,
+      write(chunk: Buffer, _encoding, callback) {
+        chunks.push(chunk);
+        written += chunk.length;
+        setTimeout(callback, 1);
+      }
+    });
+
+    let read = 0;
+    let maxAhead = 0;
+    async function* source(fill: number) {
+      for (let i = 0; i < CHUNKS; i++) {
+        maxAhead = Math.max(maxAhead, read - written);
+        read += CHUNK_SIZE;
+        yield await Promise.resolve(Buffer.alloc(CHUNK_SIZE, fill));
+      }
+    }
+
+    const writer = new ApkgZipWriter(output);
+    await Promise.all([writer.addMediaFile(0, source(1)), writer.addMediaFile(1, source(2))]);
+    await writer.finalize();
+
+    // Two files of 3 MiB each, but at most the 1 MiB output queue plus
+    // 1 MiB held for the second file are in flight
+    expect(read).toBe(2 * CHUNKS * CHUNK_SIZE);
+    expect(maxAhead).toBeLessThan(2 * 1024 * 1024 + 4 * CHUNK_SIZE);
+
+    const files = unzipSync(Buffer.concat(chunks));
+    expect(Buffer.from(files['0']).equals(Buffer.alloc(CHUNKS * CHUNK_SIZE, 1))).toBe(true);
+    expect(Buffer.from(files['1']).equals(Buffer.alloc(CHUNKS * CHUNK_SIZE, 2))).toBe(true);
+  });
+
+  it('reports size and SHA-1 of each media file', async () => {
+    const writer = new ApkgZipWriter(new Writable({ write: (_chunk, _encoding, callback) => callback() }));
+    const info = await writer.addMediaFile(0, [Buffer.from('hello')]);
+    await sleep(0);
+    await writer.finalize();
+
+    expect(info.size).toBe(5);
+    expect(Buffer.from(info.sha1).toString('hex')).toBe('aaf4c61ddcc5e8a2dabede0f3b482cd9aea9434d');
+  });
+});